@@ -2,30 +2,68 @@ import { IInputs, IOutputs } from "./generated/ManifestTypes";
 import * as React from 'react';
 import * as ReactDOM from 'react-dom';
 import { FluentUIAutoComplete, FluentUIAutoCompleteProps } from './tsx/AutoComplete';
-import { ParsedAddress } from './types';
+import { ParsedAddress, GeocodingProviderName, PlaceDetailsFieldSet, QueryCacheMode, ProviderLocale, LocationBiasMode, AddressValidationMode, AddressValidationResult, PostalLabelFormat, AddressOutputProfile, AddressLocation } from './types';
+import { acquireGoogleMaps, releaseGoogleMaps } from './providers/GoogleMapsLoader';
+import { resolveProviderLocale } from './tsx/Locale';
+import { parseLocationRestriction } from './providers/geometry';
+import { parseComponentMapping } from './tsx/ComponentMapping';
+import { parseStreetTemplates } from './tsx/StreetTemplates';
+import { formatPostalLabel } from './tsx/PostalLabel';
+import { splitD365AddressLines } from './tsx/D365Address';
 import { types } from "util";
 
 /// <reference types="google.maps" />
 
+// validationVerdict value that marks an address as entered manually rather than resolved by the provider
+const MANUAL_ENTRY_VERDICT = 'manual';
+
+// Providers with no public service the control may use, and why providerEndpoint is needed for them
+const ENDPOINT_REQUIRED_REASONS: { [provider in GeocodingProviderName]?: string } = {
+	nominatim: 'Nominatim needs the URL of your own Nominatim server - the public nominatim.openstreetmap.org service does not allow autocomplete',
+	photon: 'Photon needs the URL of your own Photon server - addresses are not sent to the public photon.komoot.io service'
+};
+
 export class PCFFluentUiAutoCompleteGooglePlaces implements ComponentFramework.StandardControl<IInputs, IOutputs> {
 	private _container: HTMLDivElement;
 	private _notifyOutputChanged: () => void;
 	private _context: ComponentFramework.Context<IInputs>;
 	private _props: FluentUIAutoCompleteProps = {
 		updateValue: this.updateValue.bind(this),
+		updateValidation: this.updateValidation.bind(this),
+		updateLocation: this.updateLocation.bind(this),
 	}
 	public _street: string | undefined;
 	public _suburb: string | undefined;
 	public _city: string | undefined;
 	public _state: string | undefined;
-	public _latitude: number | undefined;
-	public _longitude: number | undefined;
+	// null clears a bound number; undefined leaves the record value unchanged
+	public _latitude: number | null | undefined;
+	public _longitude: number | null | undefined;
 	public _building: string | undefined;
 	public _postcode: string | undefined;
 	public _country: string | undefined;
 	public _googlePlaceId: string | undefined;
-	private _googleMapsScript: HTMLScriptElement | null = null;
-	private _isGoogleMapsLoaded: boolean = false;
+	public _unit: string | undefined;
+	public _streetNumber: string | undefined;
+	public _streetName: string | undefined;
+	public _county: string | undefined;
+	public _formattedAddress: string | undefined;
+	public _plusCode: string | undefined;
+	public _placeTypes: string | undefined;
+	public _postalLabel: string | undefined;
+	public _line1: string | undefined;
+	public _line2: string | undefined;
+	public _line3: string | undefined;
+	public _utcOffset: number | null | undefined;
+	public _validationVerdict: string | undefined;
+	private _hasGoogleMapsReference: boolean = false;
+	private _locationRestrictionValue: string | null = null;
+	private _componentMappingValue: string | null = null;
+	private _streetTemplateValue: string | null = null;
+	private _parseErrors: string[] = [];
+	private _locationRestrictionErrors: string[] = [];
+	private _postalLabelFormat: PostalLabelFormat = 'international';
+	private _addressProfile: AddressOutputProfile = 'standard';
 	private _initialAddress: ParsedAddress | undefined;
 
 	constructor() {
@@ -46,67 +84,77 @@ export class PCFFluentUiAutoCompleteGooglePlaces implements ComponentFramework.S
 		this._container = container;
 		this._context = context;
 
-		this._initialAddress = {
-			fullAddress: '',
-			street: this._context.parameters.street.raw || '',
-			suburb: this._context.parameters.suburb.raw || '',
-			city: this._context.parameters.city.raw || '',
-			state: this._context.parameters.state.raw || '',
-			country: this._context.parameters.country.raw || '',
-			latitude: this._context.parameters.latitude.raw || undefined,
-			longitude: this._context.parameters.longitude.raw || undefined,
-			building: this._context.parameters.building.raw || '',
-			postcode: this._context.parameters.postcode.raw || '',
-			googlePlaceId: this._context.parameters.googlePlaceId.raw || ''
-		};
+		this._initialAddress = this.getInitialAddress(context);
 
-		// Load Google Maps API if we have an API key
-		if (context.parameters.apiToken.raw) {
-			this.loadGoogleMapsAPI(context.parameters.apiToken.raw);
+		// Load Google Maps API if Google is the provider and we have an API key
+		if (this.getProviderName(context) === 'google' && context.parameters.apiToken.raw) {
+			const locale = this.getProviderLocale(context);
+			this._hasGoogleMapsReference = true;
+			acquireGoogleMaps({
+				apiKey: context.parameters.apiToken.raw,
+				libraries: ['places', 'marker'],
+				language: locale.language,
+				region: locale.region
+			}).catch(() => {
+				// Load failures surface as lookup errors in the control
+			});
 		}
 
 	}
 
 	/**
-	 * Load Google Maps API script
+	 * Read the address currently stored on the record from the bound properties
 	 */
-	private loadGoogleMapsAPI(apiKey: string): Promise<void> {
-		return new Promise((resolve, reject) => {
-			// Check if Google Maps is already loaded
-			if (window.google && window.google.maps) {
-				this._isGoogleMapsLoaded = true;
-				resolve();
-				return;
-			}
-
-			// Check if script is already being loaded
-			const existingScript = document.querySelector('script[src*="maps.googleapis.com"]');
-			if (existingScript) {
-				existingScript.addEventListener('load', () => {
-					this._isGoogleMapsLoaded = true;
-					resolve();
-				});
-				existingScript.addEventListener('error', reject);
-				return;
-			}
-
-			const script = document.createElement('script');
-			script.src = `https://maps.googleapis.com/maps/api/js?key=${apiKey}&libraries=places&loading=async`;
-			script.async = true;
-			script.defer = true;
+	private getInitialAddress(context: ComponentFramework.Context<IInputs>): ParsedAddress {
+		return {
+			fullAddress: context.parameters.formattedAddress?.raw || '',
+			street: context.parameters.street.raw || '',
+			suburb: context.parameters.suburb.raw || '',
+			city: context.parameters.city.raw || '',
+			state: context.parameters.state.raw || '',
+			country: context.parameters.country.raw || '',
+			latitude: context.parameters.latitude.raw || undefined,
+			longitude: context.parameters.longitude.raw || undefined,
+			building: context.parameters.building.raw || '',
+			postcode: context.parameters.postcode.raw || '',
+			googlePlaceId: context.parameters.googlePlaceId.raw || '',
+			unit: context.parameters.unit?.raw || '',
+			streetNumber: context.parameters.streetNumber?.raw || '',
+			streetName: context.parameters.streetName?.raw || '',
+			county: context.parameters.county?.raw || '',
+			plusCode: context.parameters.plusCode?.raw || '',
+			placeTypes: context.parameters.placeTypes?.raw || '',
+			isManualEntry: context.parameters.validationVerdict?.raw === MANUAL_ENTRY_VERDICT
+		};
+	}
 
-			script.onload = () => {
-				this._isGoogleMapsLoaded = true;
-				resolve();
-			};
+	/**
+	 * Resolve the provider language and region from the manifest overrides or the user's settings
+	 */
+	private getProviderLocale(context: ComponentFramework.Context<IInputs>): ProviderLocale {
+		return resolveProviderLocale(
+			context.userSettings?.languageId,
+			context.parameters.language?.raw || undefined,
+			context.parameters.region?.raw || undefined
+		);
+	}
 
-			script.onerror = (error) => {
-				reject(new Error('Failed to load Google Maps API'));
-			};
+	/**
+	 * Resolve the configured geocoding provider, defaulting to Google
+	 */
+	private getProviderName(context: ComponentFramework.Context<IInputs>): GeocodingProviderName {
+		return (context.parameters.geocodingProvider?.raw as GeocodingProviderName) || 'google';
+	}
 
-			this._googleMapsScript = script;
-			document.head.appendChild(script);
-		});
+	/**
+	 * Settings the selected provider needs but does not have
+	 */
+	private getProviderErrors(context: ComponentFramework.Context<IInputs>): string[] {
+		const reason = ENDPOINT_REQUIRED_REASONS[this.getProviderName(context)];
+		if (reason && !(context.parameters.providerEndpoint?.raw || '').trim()) {
+			return [`Provider Endpoint: ${reason}`];
+		}
+		return [];
 	}
 
 	/**
@@ -117,27 +165,59 @@ export class PCFFluentUiAutoCompleteGooglePlaces implements ComponentFramework.S
 		// Add code to update control view
 
 		// Update initial address with current context values
-		this._initialAddress = {
-			fullAddress: '',
-			street: context.parameters.street.raw || '',
-			suburb: context.parameters.suburb.raw || '',
-			city: context.parameters.city.raw || '',
-			state: context.parameters.state.raw || '',
-			country: context.parameters.country.raw || '',
-			latitude: context.parameters.latitude.raw || undefined,
-			longitude: context.parameters.longitude.raw || undefined,
-			building: context.parameters.building.raw || '',
-			postcode: context.parameters.postcode.raw || '',
-			googlePlaceId: context.parameters.googlePlaceId.raw || ''
-		};
+		this._initialAddress = this.getInitialAddress(context);
 
 		this._props.context = context;
 		this._props.apiToken = context.parameters.apiToken.raw || "";
+		this._props.provider = this.getProviderName(context);
+		this._props.providerEndpoint = context.parameters.providerEndpoint?.raw || "";
+		this._props.detailsFieldSet = (context.parameters.detailsFieldSet?.raw as PlaceDetailsFieldSet) || 'basic';
+		// The UTC offset is only returned with the basic field set
+		this._addressProfile = (context.parameters.addressProfile?.raw as AddressOutputProfile) || 'standard';
+		this._props.selectionFieldSet = this._addressProfile === 'd365' ? 'basic' : 'address';
+		this._props.cacheMode = (context.parameters.cacheMode?.raw as QueryCacheMode) || 'memory';
+		const locale = this.getProviderLocale(context);
+		this._props.language = locale.language;
+		this._props.region = locale.region;
+		this._props.locationBiasMode = (context.parameters.locationBiasMode?.raw as LocationBiasMode) || 'none';
+		this._props.locationBiasLatitude = context.parameters.locationBiasLatitude?.raw ?? undefined;
+		this._props.locationBiasLongitude = context.parameters.locationBiasLongitude?.raw ?? undefined;
+		this._props.locationBiasRadius = context.parameters.locationBiasRadius?.raw ?? undefined;
+		// Only re-parse when the value changes so the component sees a stable restriction object
+		const locationRestrictionValue = context.parameters.locationRestriction?.raw || '';
+		if (locationRestrictionValue !== this._locationRestrictionValue) {
+			this._locationRestrictionValue = locationRestrictionValue;
+			const locationRestriction = parseLocationRestriction(locationRestrictionValue);
+			this._props.locationRestriction = locationRestriction.restriction;
+			this._locationRestrictionErrors = locationRestriction.errors.map(error => `Location Restriction: ${error}`);
+		}
+		this._props.defaultSearchTypes = context.parameters.defaultSearchTypes?.raw || '';
+		this._props.backfillLocation = context.parameters.backfillLocation?.raw || false;
+		this._props.addressValidation = (context.parameters.addressValidation?.raw as AddressValidationMode) || 'none';
+		// Validated once per value; errors are shown in the control and the defaults are used instead
+		const componentMappingValue = context.parameters.componentMapping?.raw || '';
+		const streetTemplateValue = context.parameters.streetTemplate?.raw || '';
+		if (componentMappingValue !== this._componentMappingValue || streetTemplateValue !== this._streetTemplateValue) {
+			this._componentMappingValue = componentMappingValue;
+			this._streetTemplateValue = streetTemplateValue;
+			const componentMapping = parseComponentMapping(componentMappingValue);
+			const streetTemplates = parseStreetTemplates(streetTemplateValue);
+			this._props.addressParseOptions = {
+				componentMapping: componentMapping.mapping,
+				streetTemplates: streetTemplates.templates
+			};
+			this._parseErrors = [
+				...componentMapping.errors.map(error => `Component Mapping: ${error}`),
+				...streetTemplates.errors.map(error => `Street Template: ${error}`)
+			];
+		}
+		this._props.configurationErrors = [...this._locationRestrictionErrors, ...this._parseErrors, ...this.getProviderErrors(context)];
 		this._props.isDisabled = context.mode.isControlDisabled;
 		this._props.countryRestriction = context.parameters.countryRestriction.raw || "";
 		this._props.value = context.parameters.street.raw || "";
 		this._props.stateReturnShortName = context.parameters.stateReturnShortName.raw || false;
 		this._props.countryReturnShortName = context.parameters.countryReturnShortName.raw || false;
+		this._postalLabelFormat = (context.parameters.postalLabelFormat?.raw as PostalLabelFormat) || 'international';
 		this._props.initialAddress = this._initialAddress;
 
 		ReactDOM.render(
@@ -160,26 +240,71 @@ export class PCFFluentUiAutoCompleteGooglePlaces implements ComponentFramework.S
 			city: this._city,
 			state: this._state,
 			country: this._country,
-			latitude: this._latitude,
-			longitude: this._longitude,
+			latitude: this._latitude as number | undefined,
+			longitude: this._longitude as number | undefined,
 			building: this._building,
 			postcode: this._postcode,
 			googlePlaceId: this._googlePlaceId,
+			unit: this._unit,
+			streetNumber: this._streetNumber,
+			streetName: this._streetName,
+			county: this._county,
+			formattedAddress: this._formattedAddress,
+			plusCode: this._plusCode,
+			placeTypes: this._placeTypes,
+			postalLabel: this._postalLabel,
+			line1: this._line1,
+			line2: this._line2,
+			line3: this._line3,
+			utcOffset: this._utcOffset as number | undefined,
+			validationVerdict: this._validationVerdict,
 		};
 	}
 
 	private updateValue(parsedAddress: ParsedAddress) {
-		if (parsedAddress) {
+		// Manual entries are marked through the verdict; any other address clears the mark until it is validated
+		if (parsedAddress && parsedAddress.isManualEntry) {
+			this._validationVerdict = MANUAL_ENTRY_VERDICT;
+		} else if (this._validationVerdict === MANUAL_ENTRY_VERDICT ||
+			(this._validationVerdict === undefined && this._initialAddress?.isManualEntry)) {
+			this._validationVerdict = '';
+		}
+
+		// Clearing the field sends an address with every line empty
+		const isCleared = !parsedAddress || ![parsedAddress.fullAddress, parsedAddress.street, parsedAddress.city, parsedAddress.postcode, parsedAddress.country]
+			.some(value => value && value.trim() !== '');
+
+		if (!isCleared) {
 			this._street = parsedAddress.street || '';
 			this._suburb = parsedAddress.suburb || '';
 			this._city = parsedAddress.city || '';
 			this._state = parsedAddress.state || '';
 			this._country = parsedAddress.country || '';
-			this._latitude = parsedAddress.latitude;
-			this._longitude = parsedAddress.longitude;
+			// Manual entries have no coordinates, so the previous address's are cleared
+			this._latitude = parsedAddress.latitude ?? null;
+			this._longitude = parsedAddress.longitude ?? null;
 			this._building = parsedAddress.building || '';
 			this._postcode = parsedAddress.postcode || '';
 			this._googlePlaceId = parsedAddress.googlePlaceId || '';
+			this._unit = parsedAddress.unit || '';
+			this._streetNumber = parsedAddress.streetNumber || '';
+			this._streetName = parsedAddress.streetName || '';
+			this._county = parsedAddress.county || '';
+			this._formattedAddress = parsedAddress.fullAddress || '';
+			this._plusCode = parsedAddress.plusCode || '';
+			this._placeTypes = parsedAddress.placeTypes || '';
+			this._postalLabel = formatPostalLabel(parsedAddress, this._postalLabelFormat);
+			// Line and UTC offset outputs are left untouched unless the Dynamics 365 profile is selected
+			if (this._addressProfile === 'd365') {
+				const lines = splitD365AddressLines(parsedAddress);
+				this._line1 = lines.line1;
+				this._line2 = lines.line2;
+				this._line3 = lines.line3;
+				// Record values and providers without an offset keep the saved one
+				if (parsedAddress.utcOffset !== undefined) {
+					this._utcOffset = parsedAddress.utcOffset;
+				}
+			}
 		} else {
 			// Only clear if explicitly empty
 			this._street = "";
@@ -187,16 +312,47 @@ export class PCFFluentUiAutoCompleteGooglePlaces implements ComponentFramework.S
 			this._city = "";
 			this._state = "";
 			this._country = "";
-			this._latitude = undefined;
-			this._longitude = undefined;
+			this._latitude = null;
+			this._longitude = null;
 			this._building = "";
 			this._postcode = "";
 			this._googlePlaceId = "";
+			this._unit = "";
+			this._streetNumber = "";
+			this._streetName = "";
+			this._county = "";
+			this._formattedAddress = "";
+			this._plusCode = "";
+			this._placeTypes = "";
+			this._postalLabel = "";
+			if (this._addressProfile === 'd365') {
+				this._line1 = "";
+				this._line2 = "";
+				this._line3 = "";
+				this._utcOffset = null;
+			}
+		}
+
+		this._notifyOutputChanged();
+	}
+
+	private updateLocation(location: AddressLocation) {
+		if (location.googlePlaceId !== undefined) {
+			this._googlePlaceId = location.googlePlaceId;
+		}
+		if (location.latitude !== undefined && location.longitude !== undefined) {
+			this._latitude = location.latitude;
+			this._longitude = location.longitude;
 		}
 
 		this._notifyOutputChanged();
 	}
 
+	private updateValidation(result: AddressValidationResult | null) {
+		this._validationVerdict = result ? result.verdict : '';
+		this._notifyOutputChanged();
+	}
+
 	/**
 	 * Called when the control is to be removed from the DOM tree. Controls should use this call for cleanup.
 	 * i.e. cancelling any pending remote calls, removing listeners, etc.
@@ -205,12 +361,10 @@ export class PCFFluentUiAutoCompleteGooglePlaces implements ComponentFramework.S
 		// Clean up React component
 		ReactDOM.unmountComponentAtNode(this._container);
 
-		// Clean up Google Maps script if we created it
-		if (this._googleMapsScript && this._googleMapsScript.parentNode) {
-			this._googleMapsScript.parentNode.removeChild(this._googleMapsScript);
-			this._googleMapsScript = null;
+		// Release this instance's hold on the shared Google Maps script; other instances may still use it
+		if (this._hasGoogleMapsReference) {
+			releaseGoogleMaps();
+			this._hasGoogleMapsReference = false;
 		}
-
-		this._isGoogleMapsLoaded = false;
 	}
 }
@@ -0,0 +1,119 @@
+// Address validation run after an address is selected
+// Google uses the Address Validation API; the local validator only checks the selected place is complete
+
+import { AddressValidationRequest, AddressValidationResult, GooglePlacesUtils } from '../types';
+import { postJson } from './http';
+
+const GOOGLE_VALIDATION_URL = 'https://addressvalidation.googleapis.com/v1:validateAddress';
+
+// A deliverable street address needs all of these; the locality can come from any of its alternatives
+const REQUIRED_COMPONENTS: string[][] = [
+    ['street_number'],
+    ['route'],
+    ['locality', 'postal_town', 'sublocality'],
+    ['postal_code'],
+    ['country']
+];
+
+// Unit, apartment or suite in the typed text. A designator only counts when a unit number follows it and it
+// starts the address or is set off by a comma or slash ("Unit 4, 15 Smith St", "15 Smith St, Apt 2B"), so
+// street names such as "45 Flat Rock Road" or "1 Shop Street" are not mistaken for units
+const UNIT_DESIGNATOR_PATTERN = /(?:^|[,/])\s*(?:unit|apt|apartment|flat|suite|ste|level|lvl|shop)\.?\s*\d+[a-z]?(?=$|[\s,/])/i;
+// "2/15 Smith St" shorthand and "#12", which never appear in street names
+const UNIT_SHORTHAND_PATTERN = /^\s*\d+[a-z]?\s*\/\s*\d+|#\s*\d+[a-z]?\b/i;
+
+interface GoogleValidationComponent {
+    componentType: string;
+    confirmationLevel?: 'CONFIRMED' | 'UNCONFIRMED_BUT_PLAUSIBLE' | 'UNCONFIRMED_AND_SUSPICIOUS';
+    inferred?: boolean;
+    replaced?: boolean;
+    spellCorrected?: boolean;
+}
+
+interface GoogleValidationResponse {
+    result: {
+        verdict: {
+            addressComplete?: boolean;
+            hasUnconfirmedComponents?: boolean;
+            hasInferredComponents?: boolean;
+            hasReplacedComponents?: boolean;
+        };
+        address: {
+            addressComponents?: GoogleValidationComponent[];
+            missingComponentTypes?: string[];
+            unconfirmedComponentTypes?: string[];
+        };
+    };
+}
+
+function hasComponent(request: AddressValidationRequest, type: string): boolean {
+    return GooglePlacesUtils.getAddressComponent(request.place, type) !== '';
+}
+
+// Providers often match "Unit 4, 15 Smith St" to the building and silently drop the unit
+function isUnitDropped(request: AddressValidationRequest): boolean {
+    const query = request.query || '';
+    return (UNIT_DESIGNATOR_PATTERN.test(query) || UNIT_SHORTHAND_PATTERN.test(query)) && !hasComponent(request, 'subpremise');
+}
+
+function addUnique(list: string[], value: string): string[] {
+    return list.indexOf(value) === -1 ? [...list, value] : list;
+}
+
+function getVerdict(result: Omit<AddressValidationResult, 'verdict'>): AddressValidationResult {
+    const verdict = result.missingComponents.length > 0 || result.unconfirmedComponents.length > 0
+        ? 'unconfirmed'
+        : result.inferredComponents.length > 0 ? 'inferred' : 'confirmed';
+
+    return { verdict, ...result };
+}
+
+/**
+ * Check the selected place has every component needed for delivery, without calling a service.
+ * A complete address is reported as confirmed even though deliverability is not checked.
+ */
+export function validateLocally(request: AddressValidationRequest): AddressValidationResult {
+    let missingComponents = REQUIRED_COMPONENTS
+        .filter(alternatives => !alternatives.some(type => hasComponent(request, type)))
+        .map(alternatives => alternatives[0]);
+
+    if (isUnitDropped(request)) {
+        missingComponents = addUnique(missingComponents, 'subpremise');
+    }
+
+    return getVerdict({ missingComponents, unconfirmedComponents: [], inferredComponents: [] });
+}
+
+export async function validateWithGoogle(apiKey: string, request: AddressValidationRequest, signal?: AbortSignal): Promise<AddressValidationResult> {
+    const regionCode = GooglePlacesUtils.getAddressComponentShort(request.place, 'country');
+    const response = await postJson<GoogleValidationResponse>(`${GOOGLE_VALIDATION_URL}?key=${encodeURIComponent(apiKey)}`, {
+        address: {
+            regionCode: regionCode || undefined,
+            addressLines: [GooglePlacesUtils.getFormattedAddress(request.place)]
+        }
+    }, signal);
+
+    const address = response.result.address || {};
+    const components = address.addressComponents || [];
+
+    const result = getVerdict({
+        missingComponents: address.missingComponentTypes || [],
+        unconfirmedComponents: address.unconfirmedComponentTypes ||
+            components.filter(component => component.confirmationLevel && component.confirmationLevel !== 'CONFIRMED').map(component => component.componentType),
+        inferredComponents: components
+            .filter(component => component.inferred || component.replaced || component.spellCorrected)
+            .map(component => component.componentType)
+    });
+
+    // Google only sees the selected place, which has no unit when the provider dropped it, so its verdict can be
+    // confirmed for a unit that will be missing from the delivery
+    if (!isUnitDropped(request)) {
+        return result;
+    }
+
+    return getVerdict({
+        missingComponents: addUnique(result.missingComponents, 'subpremise'),
+        unconfirmedComponents: result.unconfirmedComponents,
+        inferredComponents: result.inferredComponents
+    });
+}
@@ -0,0 +1,375 @@
+// Azure Maps Search provider using the Azure Maps REST API
+// Results are mapped into the Google-shaped responses so GooglePlacesUtils works unchanged
+
+import {
+    AddressComponent,
+    AutocompleteSession,
+    GeocodingProvider,
+    GooglePlacesAutocompleteResponse,
+    PlaceDetailsRequest,
+    PlaceDetailsResponse,
+    PlacePrediction,
+    PlaceResult,
+    StaticMapOptions,
+    SuggestionRequest
+} from '../types';
+import { buildQueryString, fetchJson, trimTrailingSlash } from './http';
+import { isWithinRestriction } from './geometry';
+
+const AZURE_MAPS_ENDPOINT = 'https://atlas.microsoft.com';
+const SEARCH_API_VERSION = '1.0';
+const RENDER_API_VERSION = '2022-08-01';
+const SUGGESTION_LIMIT = 5;
+// Results kept for details lookups; older ones are rebuilt from the position in their place ID
+const MAX_REMEMBERED_RESULTS = 100;
+// Place IDs end with the result position, e.g. "US/PAD/p0/123@47.641268,-122.125679"
+const PLACE_ID_POSITION_PATTERN = /@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)$/;
+
+interface AzureAddress {
+    buildingNumber?: string;
+    streetNumber?: string;
+    streetName?: string;
+    streetNameAndNumber?: string;
+    municipalitySubdivision?: string;
+    municipality?: string;
+    countrySecondarySubdivision?: string;
+    countrySubdivision?: string;
+    countrySubdivisionName?: string;
+    countrySubdivisionCode?: string;
+    postalCode?: string;
+    countryCode?: string;
+    country?: string;
+    freeformAddress?: string;
+}
+
+interface AzureLatLon {
+    lat: number;
+    lon: number;
+}
+
+interface AzureSearchResult {
+    type: string;
+    id: string;
+    address: AzureAddress;
+    position: AzureLatLon;
+    viewport?: {
+        topLeftPoint: AzureLatLon;
+        btmRightPoint: AzureLatLon;
+    };
+    poi?: {
+        name: string;
+        url?: string;
+    };
+}
+
+interface AzureSearchResponse {
+    results: AzureSearchResult[];
+}
+
+interface AzureReverseSearchResponse {
+    addresses: {
+        address: AzureAddress;
+        position: string;
+    }[];
+}
+
+// Azure Maps result types mapped to the closest Google place types
+const RESULT_TYPE_MAP: { [type: string]: string[] } = {
+    'Point Address': ['street_address'],
+    'Address Range': ['street_address'],
+    'Street': ['route'],
+    'Cross Street': ['intersection'],
+    'Geography': ['political', 'geocode'],
+    'POI': ['establishment', 'point_of_interest']
+};
+
+// Google type collections mapped to Azure Maps index sets
+const INDEX_SET_MAP: { [type: string]: string[] } = {
+    'address': ['PAD', 'Addr'],
+    'establishment': ['POI'],
+    'geocode': ['PAD', 'Addr', 'Str', 'Xstr', 'Geo'],
+    '(cities)': ['Geo'],
+    '(regions)': ['Geo']
+};
+
+function mapAddressComponents(address: AzureAddress): AddressComponent[] {
+    const components: AddressComponent[] = [];
+    const add = (longName: string | undefined, shortName: string | undefined, types: string[]) => {
+        if (longName) {
+            components.push({ longName, shortName: shortName || longName, types });
+        }
+    };
+
+    add(address.streetNumber, address.streetNumber, ['street_number']);
+    add(address.streetName, address.streetName, ['route']);
+    add(address.municipalitySubdivision, address.municipalitySubdivision, ['sublocality', 'sublocality_level_1', 'political']);
+    add(address.municipality, address.municipality, ['locality', 'political']);
+    add(address.countrySecondarySubdivision, address.countrySecondarySubdivision, ['administrative_area_level_2', 'political']);
+    add(
+        address.countrySubdivisionName || address.countrySubdivision,
+        address.countrySubdivisionCode || address.countrySubdivision,
+        ['administrative_area_level_1', 'political']
+    );
+    add(address.postalCode, address.postalCode, ['postal_code']);
+    add(address.country, address.countryCode, ['country', 'political']);
+
+    return components;
+}
+
+function getMainText(result: AzureSearchResult): string {
+    return result.poi?.name ||
+        result.address.streetNameAndNumber ||
+        result.address.streetName ||
+        result.address.municipality ||
+        result.address.freeformAddress ||
+        '';
+}
+
+function getSecondaryText(address: AzureAddress): string {
+    return [
+        address.municipalitySubdivision,
+        address.municipality,
+        address.countrySubdivision,
+        address.country
+    ].filter(part => part && part.trim() !== '').join(', ');
+}
+
+// Azure Maps has no lookup by result id, so the place ID carries the position to search again from
+function toPlaceId(result: AzureSearchResult): string {
+    return `${result.id}@${result.position.lat.toFixed(6)},${result.position.lon.toFixed(6)}`;
+}
+
+function parsePlaceIdPosition(placeId: string): AzureLatLon | undefined {
+    const match = PLACE_ID_POSITION_PATTERN.exec(placeId);
+    return match ? { lat: Number(match[1]), lon: Number(match[2]) } : undefined;
+}
+
+function mapSearchResult(result: AzureSearchResult): PlaceResult {
+    return {
+        addressComponents: mapAddressComponents(result.address),
+        formattedAddress: result.address.freeformAddress || '',
+        geometry: {
+            location: {
+                lat: result.position.lat,
+                lng: result.position.lon
+            },
+            viewport: result.viewport ? {
+                northeast: {
+                    lat: result.viewport.topLeftPoint.lat,
+                    lng: result.viewport.btmRightPoint.lon
+                },
+                southwest: {
+                    lat: result.viewport.btmRightPoint.lat,
+                    lng: result.viewport.topLeftPoint.lon
+                }
+            } : undefined
+        },
+        name: getMainText(result),
+        placeId: toPlaceId(result),
+        types: RESULT_TYPE_MAP[result.type] || [],
+        url: result.poi?.url
+    };
+}
+
+function mapPrediction(result: AzureSearchResult): PlacePrediction {
+    const mainText = getMainText(result);
+    const secondaryText = getSecondaryText(result.address);
+
+    return {
+        description: result.address.freeformAddress || [mainText, secondaryText].filter(Boolean).join(', '),
+        matchedSubstrings: [],
+        placeId: toPlaceId(result),
+        reference: result.id,
+        structuredFormatting: {
+            mainText,
+            secondaryText
+        },
+        terms: [],
+        types: RESULT_TYPE_MAP[result.type] || []
+    };
+}
+
+export class AzureMapsProvider implements GeocodingProvider {
+    public readonly name = 'azure' as const;
+    public readonly supportsInteractiveMap = false;
+    public readonly attribution = 'Powered by Azure Maps';
+    public readonly requiresApiKey = true;
+    public readonly requiresEndpoint = false;
+    public readonly billsPerSession = false;
+    private _subscriptionKey: string;
+    private _endpoint: string;
+    private _language?: string;
+    // Results seen in suggestions and geocoding by place ID, least recently seen first
+    private _results: Map<string, AzureSearchResult> = new Map();
+
+    constructor(subscriptionKey: string, endpoint?: string, language?: string) {
+        this._subscriptionKey = subscriptionKey;
+        this._endpoint = trimTrailingSlash(endpoint || AZURE_MAPS_ENDPOINT);
+        this._language = language;
+    }
+
+    private searchUrl(path: string, params: { [key: string]: string | number | undefined }): string {
+        return `${this._endpoint}/search/${path}/json?${buildQueryString({
+            'api-version': SEARCH_API_VERSION,
+            'subscription-key': this._subscriptionKey,
+            language: this._language,
+            ...params
+        })}`;
+    }
+
+    // A circle with a radius restricts results, lat/lon alone biases them, and a box restricts to the box
+    private getAreaParams(request: SuggestionRequest): { [key: string]: string | number | undefined } {
+        const restriction = request.locationRestriction;
+
+        if (restriction && restriction.circle) {
+            return { lat: restriction.circle.latitude, lon: restriction.circle.longitude, radius: Math.round(restriction.circle.radius) };
+        }
+        if (restriction) {
+            return {
+                topLeft: `${restriction.bounds.north},${restriction.bounds.west}`,
+                btmRight: `${restriction.bounds.south},${restriction.bounds.east}`
+            };
+        }
+        if (request.locationBias) {
+            return { lat: request.locationBias.latitude, lon: request.locationBias.longitude };
+        }
+        return {};
+    }
+
+    private remember(results: AzureSearchResult[]): void {
+        results.forEach(result => {
+            const placeId = toPlaceId(result);
+            this._results.delete(placeId);
+            this._results.set(placeId, result);
+        });
+
+        while (this._results.size > MAX_REMEMBERED_RESULTS) {
+            this._results.delete(this._results.keys().next().value as string);
+        }
+    }
+
+    private async searchNearest(position: AzureLatLon): Promise<AzureSearchResult> {
+        const response = await fetchJson<AzureReverseSearchResponse>(
+            this.searchUrl('address/reverse', { query: `${position.lat},${position.lon}` })
+        );
+        const addresses = response.addresses || [];
+
+        if (addresses.length === 0) {
+            throw new Error('Azure Maps search error: ZERO_RESULTS');
+        }
+
+        const [lat, lon] = addresses[0].position.split(',').map(Number);
+        return {
+            type: 'Point Address',
+            id: `${lat},${lon}`,
+            address: addresses[0].address,
+            position: { lat, lon }
+        };
+    }
+
+    public async fetchSuggestions(request: SuggestionRequest): Promise<GooglePlacesAutocompleteResponse> {
+        const searchTypes = request.searchTypes && request.searchTypes.length > 0 ? request.searchTypes : ['address'];
+        const indexSets: string[] = [];
+        searchTypes.forEach(type => {
+            (INDEX_SET_MAP[type] || []).forEach(indexSet => {
+                if (indexSets.indexOf(indexSet) === -1) {
+                    indexSets.push(indexSet);
+                }
+            });
+        });
+
+        const url = this.searchUrl('fuzzy', {
+            query: request.input,
+            typeahead: 'true',
+            limit: SUGGESTION_LIMIT,
+            idxSet: indexSets.join(','),
+            ...this.getAreaParams(request),
+            countrySet: request.countryRestriction && request.countryRestriction.trim()
+                ? request.countryRestriction.split(',').map(c => c.trim().toUpperCase()).join(',')
+                : undefined
+        });
+
+        const response = await fetchJson<AzureSearchResponse>(url, request.signal);
+        const restriction = request.locationRestriction;
+        const results = (response.results || [])
+            .filter(result => !restriction || isWithinRestriction(restriction, result.position.lat, result.position.lon));
+
+        if (results.length === 0) {
+            throw new Error('Azure Maps search error: ZERO_RESULTS');
+        }
+
+        this.remember(results);
+
+        return {
+            predictions: results.map(mapPrediction),
+            status: 'OK'
+        };
+    }
+
+    public async fetchDetails(request: PlaceDetailsRequest): Promise<PlaceDetailsResponse> {
+        const result = this._results.get(request.placeId);
+
+        if (result) {
+            return {
+                result: mapSearchResult(result),
+                status: 'OK'
+            };
+        }
+
+        // Suggestions served from the cache after a reload and IDs saved on the record were never seen by
+        // this instance, so find the address at the position the ID carries and keep the ID and position
+        const position = parsePlaceIdPosition(request.placeId);
+        if (!position) {
+            throw new Error('Azure Maps search error: NOT_FOUND');
+        }
+
+        const nearest = await this.searchNearest(position);
+        const place = mapSearchResult({ ...nearest, position });
+        return {
+            result: { ...place, placeId: request.placeId },
+            status: 'OK'
+        };
+    }
+
+    public async geocode(address: string): Promise<PlaceDetailsResponse> {
+        const response = await fetchJson<AzureSearchResponse>(this.searchUrl('address', { query: address, limit: 1 }));
+        const results = response.results || [];
+
+        if (results.length === 0) {
+            throw new Error('Azure Maps search error: ZERO_RESULTS');
+        }
+
+        this.remember(results);
+
+        return {
+            result: mapSearchResult(results[0]),
+            status: 'OK'
+        };
+    }
+
+    public async reverseGeocode(latitude: number, longitude: number): Promise<PlaceDetailsResponse> {
+        const result = await this.searchNearest({ lat: latitude, lon: longitude });
+
+        return {
+            result: { ...mapSearchResult(result), placeId: '' },
+            status: 'OK'
+        };
+    }
+
+    public getStaticMapUrl(latitude: number, longitude: number, options: StaticMapOptions): string {
+        return `${this._endpoint}/map/static/png?${buildQueryString({
+            'api-version': RENDER_API_VERSION,
+            'subscription-key': this._subscriptionKey,
+            center: `${longitude},${latitude}`,
+            zoom: options.zoom || 15,
+            width: options.width,
+            height: options.height,
+            pins: `default||${longitude} ${latitude}`,
+            language: this._language
+        })}`;
+    }
+
+    public closeSession(session: AutocompleteSession): void {
+        // Azure Maps search has no session billing
+    }
+}
@@ -0,0 +1,177 @@
+// Single Google Maps JavaScript API loader shared by every control instance on the form
+// The script is injected once; instances hold a reference while they are alive (see index.ts)
+
+/// <reference types="google.maps" />
+
+export interface GoogleMapsLoaderOptions {
+    apiKey: string;
+    libraries?: string[];
+    // Omitted parameters fall back to Google's defaults (weekly channel, browser language, US region bias)
+    version?: string;
+    language?: string;
+    region?: string;
+}
+
+const SCRIPT_ID = 'google-maps-script-pcf';
+const CALLBACK_NAME = 'initGoogleMapsForPCF';
+const DEFAULT_LIBRARIES = ['places', 'marker'];
+
+let loadPromise: Promise<void> | null = null;
+let rejectPendingLoad: ((error: Error) => void) | null = null;
+let isLoaded = false;
+let isAuthFailed = false;
+let referenceCount = 0;
+const loadedLibraries: string[] = [];
+
+// Declare global Google Maps types for TypeScript
+declare global {
+    interface Window {
+        google: typeof google;
+        initGoogleMapsForPCF: () => void;
+        gm_authFailure: () => void;
+    }
+}
+
+function buildScriptUrl(options: GoogleMapsLoaderOptions, libraries: string[]): string {
+    const params: { [key: string]: string | undefined } = {
+        key: options.apiKey,
+        v: options.version,
+        language: options.language,
+        region: options.region,
+        libraries: libraries.join(','),
+        loading: 'async',
+        callback: CALLBACK_NAME
+    };
+
+    return `https://maps.googleapis.com/maps/api/js?${Object.keys(params)
+        .filter(key => params[key])
+        .map(key => `${key}=${encodeURIComponent(params[key] as string)}`)
+        .join('&')}`;
+}
+
+function removeScript(): void {
+    const script = document.getElementById(SCRIPT_ID);
+    if (script && script.parentNode) {
+        script.parentNode.removeChild(script);
+    }
+    delete (window as any)[CALLBACK_NAME];
+    loadPromise = null;
+    rejectPendingLoad = null;
+}
+
+function injectScript(options: GoogleMapsLoaderOptions, libraries: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+        rejectPendingLoad = reject;
+
+        // Google calls gm_authFailure when the key is invalid or not authorised for this site
+        const previousAuthFailure = window.gm_authFailure;
+        window.gm_authFailure = () => {
+            isAuthFailed = true;
+            if (previousAuthFailure) {
+                previousAuthFailure();
+            }
+        };
+
+        (window as any)[CALLBACK_NAME] = () => {
+            isLoaded = true;
+            rejectPendingLoad = null;
+            libraries.forEach(library => loadedLibraries.push(library));
+            delete (window as any)[CALLBACK_NAME];
+            resolve();
+        };
+
+        const script = document.createElement('script');
+        script.id = SCRIPT_ID;
+        script.async = true;
+        script.defer = true;
+        script.src = buildScriptUrl(options, libraries);
+
+        script.onerror = () => {
+            // Remove the failed script so the next load can retry
+            removeScript();
+            reject(new Error('Failed to load Google Maps API'));
+        };
+
+        document.head.appendChild(script);
+    });
+}
+
+// A script injected by another build of this control - wait for it instead of adding a second one
+function waitForExistingScript(script: HTMLElement): Promise<void> {
+    return new Promise((resolve, reject) => {
+        script.addEventListener('load', () => {
+            isLoaded = true;
+            resolve();
+        });
+        script.addEventListener('error', () => {
+            loadPromise = null;
+            reject(new Error('Failed to load Google Maps API'));
+        });
+    });
+}
+
+// Libraries missing from the initial script URL are imported on demand
+async function importMissingLibraries(libraries: string[]): Promise<void> {
+    const missing = libraries.filter(library => loadedLibraries.indexOf(library) === -1);
+
+    if (missing.length === 0 || !window.google?.maps?.importLibrary) {
+        return;
+    }
+
+    await Promise.all(missing.map(library => google.maps.importLibrary(library)));
+    missing.forEach(library => loadedLibraries.push(library));
+}
+
+/**
+ * Load the Google Maps JavaScript API, reusing the script if it is already on the page.
+ * Language, region and version only apply to the first load - the API cannot be reloaded with other values.
+ */
+export async function loadGoogleMaps(options: GoogleMapsLoaderOptions): Promise<void> {
+    const libraries = options.libraries && options.libraries.length > 0 ? options.libraries : DEFAULT_LIBRARIES;
+
+    if (!loadPromise) {
+        const existingScript = document.getElementById(SCRIPT_ID);
+
+        if (window.google?.maps) {
+            // Loaded by the host page or another build of this control
+            isLoaded = true;
+            loadPromise = Promise.resolve();
+        } else if (existingScript) {
+            loadPromise = waitForExistingScript(existingScript);
+        } else {
+            loadPromise = injectScript(options, libraries);
+        }
+    }
+
+    await loadPromise;
+    await importMissingLibraries(libraries);
+}
+
+/**
+ * Take a reference on the shared script for the lifetime of a control instance and start loading it.
+ */
+export function acquireGoogleMaps(options: GoogleMapsLoaderOptions): Promise<void> {
+    referenceCount++;
+    return loadGoogleMaps(options);
+}
+
+/**
+ * Release a reference taken by acquireGoogleMaps.
+ * A loaded API stays resident (google.maps cannot be unloaded); the script is only removed when the
+ * last instance goes away before it finished loading, so a later instance starts with a clean load.
+ */
+export function releaseGoogleMaps(): void {
+    referenceCount = Math.max(0, referenceCount - 1);
+
+    if (referenceCount === 0 && !isLoaded && loadPromise) {
+        const rejectLoad = rejectPendingLoad;
+        removeScript();
+        if (rejectLoad) {
+            rejectLoad(new Error('Failed to load Google Maps API: load cancelled'));
+        }
+    }
+}
+
+export function isGoogleMapsAuthFailed(): boolean {
+    return isAuthFailed;
+}
@@ -0,0 +1,355 @@
+// Google Places provider using the Google Maps JavaScript API
+// Suggestions and details use the new Places API (AutocompleteSuggestion / Place)
+// Based on the working implementation from CloseQuote.js
+
+/// <reference types="google.maps" />
+
+import {
+    AutocompleteSession,
+    GeocodingProvider,
+    GooglePlacesAutocompleteResponse,
+    MatchedSubstring,
+    PlaceDetailsFieldSet,
+    PlaceDetailsRequest,
+    PlaceDetailsResponse,
+    PlaceResult,
+    ProviderLocale,
+    StaticMapOptions,
+    SuggestionRequest
+} from '../types';
+import { isGoogleMapsAuthFailed, loadGoogleMaps } from './GoogleMapsLoader';
+
+// Place fields per field set - each set includes the fields of the cheaper sets before it
+const ADDRESS_FIELDS = ['addressComponents', 'formattedAddress', 'location', 'viewport', 'types', 'plusCode'];
+const BASIC_FIELDS = [...ADDRESS_FIELDS, 'displayName', 'googleMapsURI', 'businessStatus', 'utcOffsetMinutes'];
+const CONTACT_FIELDS = [...BASIC_FIELDS, 'websiteURI', 'nationalPhoneNumber', 'regularOpeningHours'];
+const ATMOSPHERE_FIELDS = [...CONTACT_FIELDS, 'rating', 'userRatingCount', 'photos'];
+
+// Photos shown in the details dialog, and the width they are requested at
+const MAX_PHOTOS = 3;
+const PHOTO_MAX_WIDTH = 400;
+
+// Places autocomplete rejects bias circles larger than 50 km
+const MAX_BIAS_RADIUS = 50000;
+
+const PLACE_FIELDS: { [fieldSet in PlaceDetailsFieldSet]: string[] } = {
+    address: ADDRESS_FIELDS,
+    basic: BASIC_FIELDS,
+    contact: CONTACT_FIELDS,
+    atmosphere: ATMOSPHERE_FIELDS
+};
+
+// Convert new Places API string ranges to the legacy offset/length substrings
+function mapStringRanges(ranges?: google.maps.places.StringRange[] | null): MatchedSubstring[] {
+    return (ranges || []).map(range => ({
+        length: range.endOffset - range.startOffset,
+        offset: range.startOffset
+    }));
+}
+
+// Map a new Places API Place onto the PlaceResult shape used throughout the control
+function mapPlace(place: google.maps.places.Place, placeId: string): PlaceResult {
+    return {
+        addressComponents: place.addressComponents?.map(component => ({
+            longName: component.longText || '',
+            shortName: component.shortText || '',
+            types: component.types
+        })),
+        formattedAddress: place.formattedAddress || '',
+        geometry: {
+            location: {
+                lat: place.location?.lat() || 0,
+                lng: place.location?.lng() || 0
+            },
+            viewport: place.viewport ? {
+                northeast: {
+                    lat: place.viewport.getNorthEast().lat(),
+                    lng: place.viewport.getNorthEast().lng()
+                },
+                southwest: {
+                    lat: place.viewport.getSouthWest().lat(),
+                    lng: place.viewport.getSouthWest().lng()
+                }
+            } : undefined
+        },
+        businessStatus: place.businessStatus || undefined,
+        name: place.displayName || undefined,
+        openingHours: place.regularOpeningHours ? {
+            weekdayText: place.regularOpeningHours.weekdayDescriptions
+        } : undefined,
+        phoneNumber: place.nationalPhoneNumber || undefined,
+        photos: place.photos?.slice(0, MAX_PHOTOS).map(photo => ({
+            height: photo.heightPx,
+            htmlAttributions: photo.authorAttributions.map(author => author.displayName),
+            uri: photo.getURI({ maxWidth: PHOTO_MAX_WIDTH }),
+            width: photo.widthPx
+        })),
+        placeId: place.id || placeId,
+        plusCode: place.plusCode?.globalCode ? {
+            compoundCode: place.plusCode.compoundCode || undefined,
+            globalCode: place.plusCode.globalCode
+        } : undefined,
+        rating: place.rating ?? undefined,
+        types: place.types || [],
+        url: place.googleMapsURI || undefined,
+        userRatingsTotal: place.userRatingCount ?? undefined,
+        utcOffset: place.utcOffsetMinutes ?? undefined,
+        website: place.websiteURI || undefined
+    };
+}
+
+// Map a Geocoder result onto the same PlaceResult shape returned by fetchDetails
+function mapGeocoderResult(result: google.maps.GeocoderResult): PlaceResult {
+    return {
+        addressComponents: result.address_components?.map(component => ({
+            longName: component.long_name,
+            shortName: component.short_name,
+            types: component.types
+        })),
+        formattedAddress: result.formatted_address || '',
+        geometry: {
+            location: {
+                lat: result.geometry.location.lat(),
+                lng: result.geometry.location.lng()
+            },
+            viewport: result.geometry.viewport ? {
+                northeast: {
+                    lat: result.geometry.viewport.getNorthEast().lat(),
+                    lng: result.geometry.viewport.getNorthEast().lng()
+                },
+                southwest: {
+                    lat: result.geometry.viewport.getSouthWest().lat(),
+                    lng: result.geometry.viewport.getSouthWest().lng()
+                }
+            } : undefined
+        },
+        placeId: result.place_id,
+        plusCode: result.plus_code ? {
+            compoundCode: result.plus_code.compound_code,
+            globalCode: result.plus_code.global_code
+        } : undefined,
+        types: result.types || []
+    };
+}
+
+interface GoogleSessionState {
+    token: google.maps.places.AutocompleteSessionToken;
+    // Predictions returned within the session, used to conclude it via toPlace()
+    predictions: { [placeId: string]: google.maps.places.PlacePrediction };
+}
+
+export class GooglePlacesProvider implements GeocodingProvider {
+    public readonly name = 'google' as const;
+    public readonly supportsInteractiveMap = true;
+    public readonly attribution = 'Powered by Google™';
+    public readonly requiresApiKey = true;
+    public readonly requiresEndpoint = false;
+    public readonly billsPerSession = true;
+    private _apiKey: string;
+    private _locale: ProviderLocale;
+    private _sessions: { [id: string]: GoogleSessionState } = {};
+
+    constructor(apiKey: string, locale: ProviderLocale = {}) {
+        this._apiKey = apiKey;
+        this._locale = locale;
+    }
+
+    private async ensureLoaded(): Promise<void> {
+        // Shared loader - reuses the script already injected by the control or another instance
+        await loadGoogleMaps({
+            apiKey: this._apiKey,
+            libraries: ['places'],
+            language: this._locale.language,
+            region: this._locale.region
+        });
+
+        if (isGoogleMapsAuthFailed()) {
+            throw new Error('Google Maps API error: REQUEST_DENIED (API key rejected)');
+        }
+
+        if (!window.google?.maps?.places) {
+            throw new Error('Google Places API not available after loading');
+        }
+    }
+
+    private getSessionState(session: AutocompleteSession): GoogleSessionState {
+        if (!this._sessions[session.id]) {
+            this._sessions[session.id] = {
+                token: new google.maps.places.AutocompleteSessionToken(),
+                predictions: {}
+            };
+        }
+        return this._sessions[session.id];
+    }
+
+    public async fetchSuggestions(suggestionRequest: SuggestionRequest): Promise<GooglePlacesAutocompleteResponse> {
+        await this.ensureLoaded();
+
+        const request: google.maps.places.AutocompleteRequest = {
+            input: suggestionRequest.input,
+            includedPrimaryTypes: suggestionRequest.searchTypes && suggestionRequest.searchTypes.length > 0 ? suggestionRequest.searchTypes : ['address']
+        };
+
+        if (this._locale.language) {
+            request.language = this._locale.language;
+        }
+        if (this._locale.region) {
+            request.region = this._locale.region.toLowerCase();
+        }
+
+        // Google accepts either a bias or a restriction, and the restriction must be a rectangle
+        const restriction = suggestionRequest.locationRestriction;
+        if (restriction) {
+            request.locationRestriction = restriction.bounds;
+            if (restriction.circle) {
+                // Distances to the centre let circular restrictions be enforced below
+                request.origin = { lat: restriction.circle.latitude, lng: restriction.circle.longitude };
+            }
+        } else if (suggestionRequest.locationBias) {
+            request.locationBias = {
+                center: {
+                    lat: suggestionRequest.locationBias.latitude,
+                    lng: suggestionRequest.locationBias.longitude
+                },
+                radius: Math.min(suggestionRequest.locationBias.radius, MAX_BIAS_RADIUS)
+            };
+        }
+
+        // Add country restriction if provided
+        const countryRestriction = suggestionRequest.countryRestriction;
+        if (countryRestriction && countryRestriction.trim()) {
+            request.includedRegionCodes = countryRestriction.split(',').map(c => c.trim().toLowerCase());
+        }
+
+        const sessionState = suggestionRequest.session ? this.getSessionState(suggestionRequest.session) : null;
+        if (sessionState) {
+            request.sessionToken = sessionState.token;
+        }
+
+        let suggestions: google.maps.places.AutocompleteSuggestion[];
+        try {
+            const response = await google.maps.places.AutocompleteSuggestion.fetchAutocompleteSuggestions(request);
+            suggestions = response.suggestions;
+        } catch (error) {
+            throw new Error(`Google Places API error: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const restrictionRadius = restriction && restriction.circle ? restriction.circle.radius : undefined;
+        const predictions = suggestions
+            .map(suggestion => suggestion.placePrediction)
+            .filter((prediction): prediction is google.maps.places.PlacePrediction => prediction !== null)
+            .filter(prediction => restrictionRadius === undefined ||
+                (prediction.distanceMeters !== null && prediction.distanceMeters <= restrictionRadius));
+
+        // The new API resolves with an empty list instead of a ZERO_RESULTS status
+        if (predictions.length === 0) {
+            throw new Error('Google Places API error: ZERO_RESULTS');
+        }
+
+        if (sessionState) {
+            predictions.forEach(prediction => {
+                sessionState.predictions[prediction.placeId] = prediction;
+            });
+        }
+
+        return {
+            predictions: predictions.map(prediction => ({
+                description: prediction.text.text,
+                matchedSubstrings: mapStringRanges(prediction.text.matches),
+                placeId: prediction.placeId,
+                reference: prediction.placeId,
+                structuredFormatting: {
+                    mainText: prediction.mainText?.text || prediction.text.text,
+                    mainTextMatchedSubstrings: mapStringRanges(prediction.mainText?.matches),
+                    secondaryText: prediction.secondaryText?.text || ''
+                },
+                terms: [],
+                types: prediction.types || []
+            })),
+            status: 'OK'
+        };
+    }
+
+    public async fetchDetails(detailsRequest: PlaceDetailsRequest): Promise<PlaceDetailsResponse> {
+        await this.ensureLoaded();
+
+        // A place created from a session prediction carries the session token, which concludes the session
+        const sessionState = detailsRequest.session ? this._sessions[detailsRequest.session.id] : undefined;
+        const sessionPrediction = sessionState ? sessionState.predictions[detailsRequest.placeId] : undefined;
+        const place = sessionPrediction ? sessionPrediction.toPlace() : new google.maps.places.Place({
+                id: detailsRequest.placeId,
+                requestedLanguage: this._locale.language,
+                requestedRegion: this._locale.region
+            });
+
+        if (detailsRequest.session) {
+            this.closeSession(detailsRequest.session);
+        }
+
+        try {
+            await place.fetchFields({
+                fields: PLACE_FIELDS[detailsRequest.fieldSet || 'basic']
+            });
+        } catch (error) {
+            throw new Error(`Google Places API error: ${error instanceof Error ? error.message : error}`);
+        }
+
+        return {
+            result: mapPlace(place, detailsRequest.placeId),
+            status: 'OK'
+        };
+    }
+
+    public async geocode(address: string): Promise<PlaceDetailsResponse> {
+        await this.ensureLoaded();
+
+        return new Promise((resolve, reject) => {
+            const geocoder = new google.maps.Geocoder();
+
+            geocoder.geocode({ address, language: this._locale.language, region: this._locale.region }, (results, status) => {
+                if (status === google.maps.GeocoderStatus.OK && results && results.length > 0) {
+                    resolve({ result: mapGeocoderResult(results[0]), status: status });
+                } else {
+                    reject(new Error(`Google Geocoding API error: ${status}`));
+                }
+            });
+        });
+    }
+
+    public async reverseGeocode(latitude: number, longitude: number): Promise<PlaceDetailsResponse> {
+        await this.ensureLoaded();
+
+        return new Promise((resolve, reject) => {
+            const geocoder = new google.maps.Geocoder();
+
+            geocoder.geocode({ location: { lat: latitude, lng: longitude }, language: this._locale.language }, (results, status) => {
+                if (status === google.maps.GeocoderStatus.OK && results && results.length > 0) {
+                    resolve({ result: mapGeocoderResult(results[0]), status: status });
+                } else {
+                    reject(new Error(`Google Geocoding API error: ${status}`));
+                }
+            });
+        });
+    }
+
+    public getStaticMapUrl(latitude: number, longitude: number, options: StaticMapOptions): string {
+        const params = [
+            `center=${latitude},${longitude}`,
+            `zoom=${options.zoom || 15}`,
+            `size=${options.width}x${options.height}`,
+            `markers=${latitude},${longitude}`,
+            `key=${this._apiKey}`
+        ];
+        if (this._locale.language) {
+            params.push(`language=${encodeURIComponent(this._locale.language)}`);
+        }
+        if (this._locale.region) {
+            params.push(`region=${encodeURIComponent(this._locale.region)}`);
+        }
+        return `https://maps.googleapis.com/maps/api/staticmap?${params.join('&')}`;
+    }
+
+    public closeSession(session: AutocompleteSession): void {
+        delete this._sessions[session.id];
+    }
+}
@@ -0,0 +1,487 @@
+// OpenStreetMap provider for Nominatim- and Photon-compatible endpoints
+// Intended for self-hosted geocoding where a Google key cannot be used
+
+import {
+    AddressComponent,
+    AutocompleteSession,
+    GeocodingProvider,
+    GooglePlacesAutocompleteResponse,
+    LocationBounds,
+    LocationCircle,
+    LocationRestriction,
+    PlaceDetailsRequest,
+    PlaceDetailsResponse,
+    PlacePrediction,
+    PlaceResult,
+    StaticMapOptions,
+    SuggestionRequest
+} from '../types';
+import { buildQueryString, fetchJson, trimTrailingSlash } from './http';
+import { getCircleBounds, isWithinRestriction } from './geometry';
+
+export type OpenStreetMapFlavour = 'nominatim' | 'photon';
+
+const SUGGESTION_LIMIT = 5;
+// Languages with a Photon search index
+const PHOTON_LANGUAGES = ['de', 'en', 'fr', 'it'];
+
+interface OsmSearchOptions {
+    countryCodes: string[];
+    searchTypes: string[];
+    locationBias?: LocationCircle;
+    locationRestriction?: LocationRestriction;
+    signal?: AbortSignal;
+}
+
+// Normalised OSM address using the Nominatim `address` keys
+interface OsmAddress {
+    house_number?: string;
+    road?: string;
+    building?: string;
+    neighbourhood?: string;
+    quarter?: string;
+    suburb?: string;
+    city_district?: string;
+    city?: string;
+    town?: string;
+    village?: string;
+    hamlet?: string;
+    county?: string;
+    state?: string;
+    'ISO3166-2-lvl4'?: string;
+    postcode?: string;
+    country?: string;
+    country_code?: string;
+}
+
+interface OsmPlace {
+    id: string;
+    name?: string;
+    displayName?: string;
+    type?: string;
+    latitude: number;
+    longitude: number;
+    // [south, north, west, east]
+    boundingBox?: number[];
+    address: OsmAddress;
+}
+
+interface NominatimResult {
+    osm_type: string;
+    osm_id: number;
+    lat: string;
+    lon: string;
+    display_name: string;
+    name?: string;
+    type?: string;
+    addresstype?: string;
+    boundingbox?: string[];
+    address?: OsmAddress;
+}
+
+interface PhotonFeature {
+    geometry: {
+        coordinates: number[];
+    };
+    properties: {
+        osm_id: number;
+        osm_type: string;
+        osm_value?: string;
+        type?: string;
+        name?: string;
+        housenumber?: string;
+        street?: string;
+        district?: string;
+        locality?: string;
+        city?: string;
+        county?: string;
+        state?: string;
+        postcode?: string;
+        country?: string;
+        countrycode?: string;
+        // [west, north, east, south]
+        extent?: number[];
+    };
+}
+
+interface PhotonResponse {
+    features: PhotonFeature[];
+}
+
+// OSM place types mapped to the closest Google place types
+const PLACE_TYPE_MAP: { [type: string]: string[] } = {
+    house: ['street_address'],
+    building: ['premise'],
+    road: ['route'],
+    street: ['route'],
+    suburb: ['sublocality', 'political'],
+    neighbourhood: ['neighborhood', 'political'],
+    district: ['sublocality', 'political'],
+    city: ['locality', 'political'],
+    town: ['locality', 'political'],
+    village: ['locality', 'political'],
+    county: ['administrative_area_level_2', 'political'],
+    state: ['administrative_area_level_1', 'political'],
+    country: ['country', 'political'],
+    postcode: ['postal_code']
+};
+
+// Google type collections mapped to Nominatim `layer`/`featureType` and Photon `layer` filters
+const NOMINATIM_FILTER_MAP: { [type: string]: { [param: string]: string } } = {
+    'address': { layer: 'address' },
+    'geocode': { layer: 'address' },
+    'establishment': { layer: 'poi' },
+    '(cities)': { featureType: 'city' },
+    '(regions)': { featureType: 'state' }
+};
+
+const PHOTON_LAYER_MAP: { [type: string]: string[] } = {
+    'address': ['house', 'street'],
+    'geocode': ['house', 'street', 'locality', 'district', 'city'],
+    '(cities)': ['city'],
+    '(regions)': ['state']
+};
+
+function fromNominatim(result: NominatimResult): OsmPlace {
+    const box = result.boundingbox ? result.boundingbox.map(Number) : undefined;
+
+    return {
+        id: `${result.osm_type.charAt(0).toUpperCase()}${result.osm_id}`,
+        name: result.name,
+        displayName: result.display_name,
+        type: result.addresstype || result.type,
+        latitude: Number(result.lat),
+        longitude: Number(result.lon),
+        boundingBox: box,
+        address: result.address || {}
+    };
+}
+
+function fromPhoton(feature: PhotonFeature): OsmPlace {
+    const props = feature.properties;
+    const extent = props.extent;
+
+    return {
+        id: `${props.osm_type.charAt(0).toUpperCase()}${props.osm_id}`,
+        name: props.name,
+        type: props.type || props.osm_value,
+        latitude: feature.geometry.coordinates[1],
+        longitude: feature.geometry.coordinates[0],
+        boundingBox: extent ? [extent[3], extent[1], extent[0], extent[2]] : undefined,
+        address: {
+            house_number: props.housenumber,
+            road: props.street,
+            suburb: props.district || props.locality,
+            city: props.city,
+            county: props.county,
+            state: props.state,
+            postcode: props.postcode,
+            country: props.country,
+            country_code: props.countrycode
+        }
+    };
+}
+
+function mapAddressComponents(address: OsmAddress): AddressComponent[] {
+    const components: AddressComponent[] = [];
+    const add = (longName: string | undefined, shortName: string | undefined, types: string[]) => {
+        if (longName) {
+            components.push({ longName, shortName: shortName || longName, types });
+        }
+    };
+    const stateCode = address['ISO3166-2-lvl4'] ? address['ISO3166-2-lvl4'].split('-').pop() : undefined;
+
+    add(address.house_number, address.house_number, ['street_number']);
+    add(address.road, address.road, ['route']);
+    add(address.building, address.building, ['premise']);
+    add(address.suburb || address.city_district || address.quarter, undefined, ['sublocality', 'sublocality_level_1', 'political']);
+    add(address.neighbourhood, address.neighbourhood, ['neighborhood', 'political']);
+    add(address.city || address.town || address.village || address.hamlet, undefined, ['locality', 'political']);
+    add(address.county, address.county, ['administrative_area_level_2', 'political']);
+    add(address.state, stateCode, ['administrative_area_level_1', 'political']);
+    add(address.postcode, address.postcode, ['postal_code']);
+    add(address.country, address.country_code ? address.country_code.toUpperCase() : undefined, ['country', 'political']);
+
+    return components;
+}
+
+function getMainText(place: OsmPlace): string {
+    const address = place.address;
+    const street = [address.house_number, address.road].filter(Boolean).join(' ');
+    return street || place.name || address.city || address.town || address.village || place.displayName || '';
+}
+
+function getSecondaryText(place: OsmPlace): string {
+    const address = place.address;
+    return [
+        address.suburb,
+        address.city || address.town || address.village,
+        address.state,
+        address.country
+    ].filter(part => part && part.trim() !== '').join(', ');
+}
+
+function getFormattedAddress(place: OsmPlace): string {
+    return place.displayName || [getMainText(place), getSecondaryText(place), place.address.postcode].filter(Boolean).join(', ');
+}
+
+function mapPlaceResult(place: OsmPlace): PlaceResult {
+    const box = place.boundingBox;
+
+    return {
+        addressComponents: mapAddressComponents(place.address),
+        formattedAddress: getFormattedAddress(place),
+        geometry: {
+            location: {
+                lat: place.latitude,
+                lng: place.longitude
+            },
+            viewport: box ? {
+                northeast: { lat: box[1], lng: box[3] },
+                southwest: { lat: box[0], lng: box[2] }
+            } : undefined
+        },
+        name: place.name || getMainText(place),
+        placeId: place.id,
+        types: (place.type && PLACE_TYPE_MAP[place.type]) || []
+    };
+}
+
+function mapPrediction(place: OsmPlace): PlacePrediction {
+    const mainText = getMainText(place);
+    const secondaryText = getSecondaryText(place);
+
+    return {
+        description: getFormattedAddress(place),
+        matchedSubstrings: [],
+        placeId: place.id,
+        reference: place.id,
+        structuredFormatting: {
+            mainText,
+            secondaryText
+        },
+        terms: [],
+        types: (place.type && PLACE_TYPE_MAP[place.type]) || []
+    };
+}
+
+// Nominatim viewbox (west,north,east,south)
+function getViewbox(bounds: LocationBounds): string {
+    return [bounds.west, bounds.north, bounds.east, bounds.south].join(',');
+}
+
+// Photon bbox (minLon,minLat,maxLon,maxLat)
+function getBbox(bounds: LocationBounds): string {
+    return [bounds.west, bounds.south, bounds.east, bounds.north].join(',');
+}
+
+// The servers only filter by rectangle, so circles (and any server slack) are enforced client-side
+function filterByRestriction(places: OsmPlace[], restriction?: LocationRestriction): OsmPlace[] {
+    return restriction
+        ? places.filter(place => isWithinRestriction(restriction, place.latitude, place.longitude))
+        : places;
+}
+
+function parseCountryCodes(countryRestriction?: string): string[] {
+    if (!countryRestriction || !countryRestriction.trim()) {
+        return [];
+    }
+    return countryRestriction.split(',').map(c => c.trim().toLowerCase()).filter(Boolean);
+}
+
+export class OpenStreetMapProvider implements GeocodingProvider {
+    public readonly name: OpenStreetMapFlavour;
+    public readonly supportsInteractiveMap = false;
+    public readonly attribution = '© OpenStreetMap contributors';
+    public readonly requiresApiKey = false;
+    // The public servers are never used: Nominatim forbids autocomplete and addresses must stay on servers the maker chose
+    public readonly requiresEndpoint = true;
+    public readonly billsPerSession = false;
+    private _endpoint: string;
+    private _language?: string;
+    // Photon has no lookup by id, so places seen in suggestions are kept for details
+    private _places: { [id: string]: OsmPlace } = {};
+
+    constructor(flavour: OpenStreetMapFlavour, endpoint?: string, language?: string) {
+        this.name = flavour;
+        this._language = language;
+        this._endpoint = trimTrailingSlash(endpoint || '');
+    }
+
+    // Photon rejects languages it has no index for, so only the supported ones are sent
+    private getPhotonLanguage(): string | undefined {
+        const language = this._language ? this._language.split('-')[0].toLowerCase() : undefined;
+        return language && PHOTON_LANGUAGES.indexOf(language) !== -1 ? language : undefined;
+    }
+
+    private remember(places: OsmPlace[]): OsmPlace[] {
+        places.forEach(place => {
+            this._places[place.id] = place;
+        });
+        return places;
+    }
+
+    private async searchNominatim(query: string, limit: number, options: OsmSearchOptions): Promise<OsmPlace[]> {
+        const filters: { [param: string]: string } = {};
+        options.searchTypes.forEach(type => {
+            const filter = NOMINATIM_FILTER_MAP[type];
+            if (filter) {
+                Object.keys(filter).forEach(param => {
+                    filters[param] = filters[param] ? `${filters[param]},${filter[param]}` : filter[param];
+                });
+            }
+        });
+
+        const url = `${this._endpoint}/search?${buildQueryString({
+            q: query,
+            format: 'jsonv2',
+            addressdetails: 1,
+            'accept-language': this._language,
+            limit,
+            countrycodes: options.countryCodes.join(','),
+            // A bounded viewbox restricts results; an unbounded one only biases them towards the area
+            viewbox: options.locationRestriction
+                ? getViewbox(options.locationRestriction.bounds)
+                : options.locationBias ? getViewbox(getCircleBounds(options.locationBias)) : undefined,
+            bounded: options.locationRestriction ? 1 : undefined,
+            ...filters
+        })}`;
+
+        const results = await fetchJson<NominatimResult[]>(url, options.signal);
+        return this.remember(filterByRestriction((results || []).map(fromNominatim), options.locationRestriction));
+    }
+
+    private async searchPhoton(query: string, limit: number, options: OsmSearchOptions): Promise<OsmPlace[]> {
+        const countryCodes = options.countryCodes;
+        const layers: string[] = [];
+        options.searchTypes.forEach(type => {
+            (PHOTON_LAYER_MAP[type] || []).forEach(layer => {
+                if (layers.indexOf(layer) === -1) {
+                    layers.push(layer);
+                }
+            });
+        });
+
+        // Photon takes repeated `layer` parameters
+        const layerParams = layers.map(layer => `&layer=${encodeURIComponent(layer)}`).join('');
+        const url = `${this._endpoint}/api?${buildQueryString({
+            q: query,
+            limit,
+            lang: this.getPhotonLanguage(),
+            lat: options.locationBias?.latitude,
+            lon: options.locationBias?.longitude,
+            bbox: options.locationRestriction ? getBbox(options.locationRestriction.bounds) : undefined
+        })}${layerParams}`;
+
+        const response = await fetchJson<PhotonResponse>(url, options.signal);
+        const places = (response.features || []).map(fromPhoton)
+            // Photon has no country filter, so restrict the results client-side
+            .filter(place => countryCodes.length === 0 ||
+                countryCodes.indexOf((place.address.country_code || '').toLowerCase()) !== -1);
+
+        return this.remember(filterByRestriction(places, options.locationRestriction));
+    }
+
+    private search(query: string, limit: number, request: Partial<SuggestionRequest> = {}): Promise<OsmPlace[]> {
+        const options: OsmSearchOptions = {
+            countryCodes: parseCountryCodes(request.countryRestriction),
+            searchTypes: request.searchTypes || [],
+            locationBias: request.locationBias,
+            locationRestriction: request.locationRestriction,
+            signal: request.signal
+        };
+        return this.name === 'photon'
+            ? this.searchPhoton(query, limit, options)
+            : this.searchNominatim(query, limit, options);
+    }
+
+    public async fetchSuggestions(request: SuggestionRequest): Promise<GooglePlacesAutocompleteResponse> {
+        const searchTypes = request.searchTypes && request.searchTypes.length > 0 ? request.searchTypes : ['address'];
+        const places = await this.search(request.input, SUGGESTION_LIMIT, { ...request, searchTypes });
+
+        if (places.length === 0) {
+            throw new Error('OpenStreetMap search error: ZERO_RESULTS');
+        }
+
+        return {
+            predictions: places.map(mapPrediction),
+            status: 'OK'
+        };
+    }
+
+    public async fetchDetails(request: PlaceDetailsRequest): Promise<PlaceDetailsResponse> {
+        let place: OsmPlace | undefined = this._places[request.placeId];
+
+        // Nominatim can look places up by OSM id, e.g. for place ids stored on the record
+        if (!place && this.name === 'nominatim') {
+            const url = `${this._endpoint}/lookup?${buildQueryString({
+                osm_ids: request.placeId,
+                format: 'jsonv2',
+                addressdetails: 1,
+                'accept-language': this._language
+            })}`;
+            const results = await fetchJson<NominatimResult[]>(url);
+            place = this.remember((results || []).map(fromNominatim))[0];
+        }
+
+        if (!place) {
+            throw new Error('OpenStreetMap search error: NOT_FOUND');
+        }
+
+        return {
+            result: mapPlaceResult(place),
+            status: 'OK'
+        };
+    }
+
+    public async geocode(address: string): Promise<PlaceDetailsResponse> {
+        const places = await this.search(address, 1);
+
+        if (places.length === 0) {
+            throw new Error('OpenStreetMap search error: ZERO_RESULTS');
+        }
+
+        return {
+            result: mapPlaceResult(places[0]),
+            status: 'OK'
+        };
+    }
+
+    public async reverseGeocode(latitude: number, longitude: number): Promise<PlaceDetailsResponse> {
+        let place: OsmPlace | undefined;
+
+        if (this.name === 'photon') {
+            const response = await fetchJson<PhotonResponse>(`${this._endpoint}/reverse?${buildQueryString({ lat: latitude, lon: longitude, lang: this.getPhotonLanguage() })}`);
+            place = (response.features || []).map(fromPhoton)[0];
+        } else {
+            const result = await fetchJson<NominatimResult & { error?: string }>(`${this._endpoint}/reverse?${buildQueryString({
+                lat: latitude,
+                lon: longitude,
+                format: 'jsonv2',
+                addressdetails: 1,
+                'accept-language': this._language
+            })}`);
+            place = result && !result.error ? fromNominatim(result) : undefined;
+        }
+
+        if (!place) {
+            throw new Error('OpenStreetMap search error: ZERO_RESULTS');
+        }
+
+        this.remember([place]);
+
+        return {
+            result: mapPlaceResult(place),
+            status: 'OK'
+        };
+    }
+
+    public getStaticMapUrl(latitude: number, longitude: number, options: StaticMapOptions): string {
+        // OpenStreetMap has no static map API; callers fall back to a text placeholder
+        return '';
+    }
+
+    public closeSession(session: AutocompleteSession): void {
+        // Nominatim and Photon have no session billing
+    }
+}
@@ -0,0 +1,92 @@
+// Small geographic helpers shared by the providers (spherical earth approximation)
+
+import { LocationBounds, LocationCircle, LocationRestriction } from '../types';
+
+const METRES_PER_DEGREE_LATITUDE = 111320;
+
+// Bounding box that encloses a circle, used where a provider only accepts rectangles
+export function getCircleBounds(circle: LocationCircle): LocationBounds {
+    const latitudeDelta = circle.radius / METRES_PER_DEGREE_LATITUDE;
+    const longitudeDelta = latitudeDelta / Math.max(Math.cos(circle.latitude * Math.PI / 180), 0.01);
+
+    return {
+        north: Math.min(circle.latitude + latitudeDelta, 90),
+        south: Math.max(circle.latitude - latitudeDelta, -90),
+        east: Math.min(circle.longitude + longitudeDelta, 180),
+        west: Math.max(circle.longitude - longitudeDelta, -180)
+    };
+}
+
+const EARTH_RADIUS_METRES = 6371000;
+
+// Great-circle distance between two points in metres
+export function getDistanceMetres(latitude1: number, longitude1: number, latitude2: number, longitude2: number): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const latitudeDelta = toRadians(latitude2 - latitude1);
+    const longitudeDelta = toRadians(longitude2 - longitude1);
+    const a = Math.sin(latitudeDelta / 2) * Math.sin(latitudeDelta / 2) +
+        Math.cos(toRadians(latitude1)) * Math.cos(toRadians(latitude2)) *
+        Math.sin(longitudeDelta / 2) * Math.sin(longitudeDelta / 2);
+    return 2 * EARTH_RADIUS_METRES * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function isWithinRestriction(restriction: LocationRestriction, latitude: number, longitude: number): boolean {
+    if (restriction.circle) {
+        return getDistanceMetres(restriction.circle.latitude, restriction.circle.longitude, latitude, longitude) <= restriction.circle.radius;
+    }
+
+    const bounds = restriction.bounds;
+    return latitude >= bounds.south && latitude <= bounds.north &&
+        longitude >= bounds.west && longitude <= bounds.east;
+}
+
+export interface LocationRestrictionParseResult {
+    restriction?: LocationRestriction;
+    // Problems found in the value; no restriction is applied when there are any
+    errors: string[];
+}
+
+/**
+ * Parse the locationRestriction property: "south,west,north,east" for a bounding box
+ * or "latitude,longitude,radiusKm" for a circle. Empty values have no restriction and no errors.
+ */
+export function parseLocationRestriction(value?: string | null): LocationRestrictionParseResult {
+    if (!value || !value.trim()) {
+        return { errors: [] };
+    }
+
+    const rawParts = value.split(',').map(part => part.trim());
+    const parts = rawParts.map(part => Number(part));
+    if (rawParts.some(part => part === '') || parts.some(part => isNaN(part))) {
+        return { errors: [`"${value.trim()}" must be numbers separated by commas`] };
+    }
+
+    if (parts.length === 3) {
+        const [latitude, longitude, radiusKm] = parts;
+        if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || radiusKm <= 0) {
+            return { errors: ['A circle needs a latitude between -90 and 90, a longitude between -180 and 180 and a radius above 0 km'] };
+        }
+        const circle: LocationCircle = { latitude, longitude, radius: radiusKm * 1000 };
+        return { restriction: { bounds: getCircleBounds(circle), circle }, errors: [] };
+    }
+
+    if (parts.length === 4) {
+        const [south, west, north, east] = parts;
+        if (south >= north || west >= east || Math.abs(south) > 90 || Math.abs(north) > 90 || Math.abs(west) > 180 || Math.abs(east) > 180) {
+            return { errors: ['A box needs south below north and west below east, within -90 to 90 and -180 to 180'] };
+        }
+        return { restriction: { bounds: { north, south, east, west } }, errors: [] };
+    }
+
+    return { errors: [`Expected 4 numbers (south,west,north,east) or 3 (latitude,longitude,radiusKm), got ${parts.length}`] };
+}
+
+// Short description of a restriction for the settings callout
+export function describeLocationRestriction(restriction: LocationRestriction): string {
+    if (restriction.circle) {
+        return `Within ${restriction.circle.radius / 1000} km of ${restriction.circle.latitude}, ${restriction.circle.longitude}`;
+    }
+
+    const bounds = restriction.bounds;
+    return `Between ${bounds.south}, ${bounds.west} and ${bounds.north}, ${bounds.east}`;
+}
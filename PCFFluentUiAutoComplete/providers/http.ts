@@ -0,0 +1,37 @@
+// Minimal JSON-over-HTTP helper shared by the REST based providers
+
+export async function fetchJson<T>(url: string, signal?: AbortSignal): Promise<T> {
+    const response = await fetch(url, { signal });
+
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json() as T;
+}
+
+export async function postJson<T>(url: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal
+    });
+
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json() as T;
+}
+
+export function buildQueryString(params: { [key: string]: string | number | undefined }): string {
+    return Object.keys(params)
+        .filter(key => params[key] !== undefined && params[key] !== '')
+        .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(String(params[key]))}`)
+        .join('&');
+}
+
+export function trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, '');
+}
@@ -1,10 +1,13 @@
 import * as React from 'react'
 import { useDebounce } from 'usehooks-ts'
 import { IInputs } from '../generated/ManifestTypes'
-import { PlacePrediction, AddressItem, GooglePlacesUtils, ParsedAddress, PlaceResult } from '../types'
-import { fetchAddressSuggestions, fetchPlaceDetails } from './Queries'
+import { PlacePrediction, AddressItem, GooglePlacesUtils, ParsedAddress, PlaceResult, GeocodingProviderConfig, GeocodingProviderName, AutocompleteSession, PlaceDetailsFieldSet, QueryCacheMode, PlacesError, PlacesErrorCode, LocationBiasMode, LocationCircle, LocationRestriction, AddressValidationMode, AddressValidationResult, AddressParseOptions, AddressLocation } from '../types'
+import { fetchAddressSuggestions, fetchPlaceDetails, geocodeAddress, reverseGeocode, validateAddress, getGeocodingProvider, isProviderConfigured, getConfigurationError, isAbortError, toPlacesError, getProviderCooldown, createAutocompleteSession, closeAutocompleteSession } from './Queries'
 import { SettingsCallout } from './SettingsCallout'
 import { PlaceDetailsCallout } from './PlaceDetailsCallout'
+import { ManualAddressForm, splitStreetLine } from './ManualAddressForm'
+import { SearchTypeOption, loadSearchTypes, parseSearchTypes, saveSearchTypes, toProviderSearchTypes } from './SearchTypes'
+import { isWithinRestriction } from '../providers/geometry'
 import { useState, useRef, useEffect, ChangeEvent } from 'react'
 import { FocusZone, FocusZoneDirection } from '@fluentui/react/lib/FocusZone'
 import { ITooltipHostStyles, } from '@fluentui/react/lib/Tooltip'
@@ -19,6 +22,7 @@ import { Label } from '@fluentui/react/lib/Label'
 import { Toggle } from '@fluentui/react/lib/Toggle'
 import { initializeIcons } from '@fluentui/react/lib/Icons'
 import { Spinner, SpinnerSize } from '@fluentui/react/lib/Spinner'
+import { MessageBar, MessageBarType } from '@fluentui/react/lib/MessageBar'
 
 // Initialize icons
 initializeIcons()
@@ -27,9 +31,48 @@ initializeIcons()
 const DEBOUNCE_DELAY = 500;
 const MIN_SEARCH_LENGTH = 3;
 const MAX_DROPDOWN_HEIGHT = 420;
+const SESSION_TIMEOUT = 3 * 60 * 1000; // Autocomplete sessions expire after a few minutes of inactivity
+const DEFAULT_BIAS_RADIUS_KM = 50;
+const GEOLOCATION_MAX_AGE = 10 * 60 * 1000; // Reuse a recent browser position instead of waiting for a new fix
+const CURRENT_LOCATION_TIMEOUT = 15000; // High accuracy fixes can take a while outdoors
 
 const stackTokens: Partial<IStackTokens> = { childrenGap: 0 }
 
+// Readable names for the address component types reported by validation
+const COMPONENT_LABELS: { [type: string]: string } = {
+    subpremise: 'unit number',
+    premise: 'building',
+    street_number: 'street number',
+    route: 'street',
+    locality: 'city',
+    sublocality: 'suburb',
+    sublocality_level_1: 'suburb',
+    postal_town: 'town',
+    administrative_area_level_1: 'state',
+    postal_code: 'postcode',
+    country: 'country'
+};
+
+function describeComponents(types: string[]): string {
+    return types
+        .map(type => COMPONENT_LABELS[type] || type.replace(/_/g, ' '))
+        .filter((label, index, labels) => labels.indexOf(label) === index)
+        .join(', ');
+}
+
+// Dropdown message for each failure category
+const ERROR_MESSAGES: { [code in PlacesErrorCode]: string } = {
+    ZERO_RESULTS: 'No results found',
+    NOT_FOUND: 'No results found',
+    INVALID_KEY: 'Address search unavailable - the API key is missing or invalid',
+    QUOTA_EXCEEDED: 'Address search unavailable - the API quota has been exceeded',
+    OFFLINE: 'Address search unavailable - you appear to be offline',
+    SCRIPT_LOAD_FAILED: 'Address search unavailable - the maps service could not be loaded',
+    SERVICE_UNAVAILABLE: 'Address search is paused after repeated failures - enter the address manually',
+    NOT_CONFIGURED: 'Address search unavailable - the provider endpoint is not configured',
+    UNKNOWN: 'Address search failed - please try again'
+};
+
 // Icons
 const searchIcon: IIconProps = {
     iconName: 'MapPin',
@@ -80,6 +123,27 @@ const infoIcon: IIconProps = {
     },
 };
 
+const locationIcon: IIconProps = {
+    iconName: 'MyLocation',
+    styles: {
+        root: {
+            color: '#656565',
+            selectors: {
+                '&:hover': {
+                    color: '#0078d4', // Change icon color to blue on hover
+                }
+            }
+        },
+    },
+};
+
+const unverifiedIcon: IIconProps = {
+    iconName: 'Warning',
+    styles: {
+        root: { color: '#8A6116' }
+    }
+};
+
 const theme: ITheme = getTheme();
 const { palette, semanticColors, fonts } = theme;
 
@@ -128,7 +192,7 @@ const style = mergeStyleSets({
     focusZoneHeader: {
         backgroundColor: '#FFF',
         display: 'flex',
-        height: '32px',
+        minHeight: '32px', // Error messages may wrap onto a second line
         padding: '2px 2px',
     },
     focusZoneHeaderContent: {
@@ -156,6 +220,11 @@ const style = mergeStyleSets({
         justifyContent: 'flex-start',
         color: '#A80000'
     },
+    focusZoneErrorDetail: {
+        fontSize: fonts.small.fontSize,
+        color: palette.neutralSecondary,
+        padding: '0 12px 6px 12px'
+    },
     focusZoneFooter: {
         backgroundColor: '#FFF',
         borderTop: `1px solid ${palette.neutralTertiary}`,
@@ -334,6 +403,26 @@ const iconToolTipStyle: Partial<ITooltipHostStyles> = {
 export interface FluentUIAutoCompleteProps {
     context?: ComponentFramework.Context<IInputs>
     apiToken?: string;
+    provider?: GeocodingProviderName;
+    providerEndpoint?: string;
+    detailsFieldSet?: PlaceDetailsFieldSet;
+    // Field set fetched when a suggestion is selected; defaults to address (basic adds the UTC offset)
+    selectionFieldSet?: PlaceDetailsFieldSet;
+    cacheMode?: QueryCacheMode;
+    language?: string;
+    region?: string;
+    locationBiasMode?: LocationBiasMode;
+    locationBiasLatitude?: number;
+    locationBiasLongitude?: number;
+    locationBiasRadius?: number;
+    locationRestriction?: LocationRestriction;
+    defaultSearchTypes?: string;
+    backfillLocation?: boolean;
+    addressValidation?: AddressValidationMode;
+    // Component mapping and street templates used when parsing a selected place
+    addressParseOptions?: AddressParseOptions;
+    // Problems in the configured properties, shown in the control so the maker can fix them
+    configurationErrors?: string[];
     isDisabled?: boolean;
     value?: string;
     countryRestriction?: string;
@@ -341,6 +430,10 @@ export interface FluentUIAutoCompleteProps {
     countryReturnShortName?: boolean;
     initialAddress?: ParsedAddress;
     updateValue: (parsedAddress: ParsedAddress) => void;
+    // Writes only the place ID and/or coordinates, leaving the address outputs untouched
+    updateLocation: (location: AddressLocation) => void;
+    // Called with the verdict once a selected address is validated, or null when the address was not validated
+    updateValidation?: (result: AddressValidationResult | null) => void;
 }
 
 export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props) => {
@@ -357,6 +450,16 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
 
     const [value, setValue] = useState<string>(props.value || '');
     const [suggestions, setSuggestions] = useState<AddressItem[]>([]);
+    const [suggestionError, setSuggestionError] = useState<PlacesError | null>(null);
+    const [isManualEntryMode, setIsManualEntryMode] = useState<boolean>(false);
+    const [browserPosition, setBrowserPosition] = useState<{ latitude: number; longitude: number } | null>(null);
+    const [isLocating, setIsLocating] = useState<boolean>(false);
+    const [locationError, setLocationError] = useState<string | null>(null);
+    const [isManualFormOpen, setIsManualFormOpen] = useState<boolean>(false);
+    const [validationResult, setValidationResult] = useState<AddressValidationResult | null>(null);
+    const [isValidating, setIsValidating] = useState<boolean>(false);
+    const [validationFailed, setValidationFailed] = useState<boolean>(false);
+    const validationRequestRef = useRef<number>(0);
     const [hoveredItem, setHoveredItem] = useState<AddressItem | null>(null);
     const [hoveredItemIndex, setHoveredItemIndex] = useState<number>(-1);
     const [hasUserInteracted, setHasUserInteracted] = useState<boolean>(false);
@@ -364,7 +467,9 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
     const [calloutTarget, setCalloutTarget] = useState<HTMLElement | null>(null);
     const [isSettingsCalloutVisible, setIsSettingsCalloutVisible] = useState<boolean>(false);
     const [settingsButtonTarget, setSettingsButtonTarget] = useState<HTMLElement | null>(null);
-    const [searchTypes, setSearchTypes] = useState<string[]>([]);
+    // Remembered per user; an empty selection falls back to the manifest default
+    const searchTypesKey = props.context?.userSettings?.userId || 'default';
+    const [searchTypes, setSearchTypes] = useState<SearchTypeOption[]>(() => loadSearchTypes(searchTypesKey) || []);
     const [isInitialAddressHovered, setIsInitialAddressHovered] = useState<boolean>(false);
     const [initialAddressButtonTarget, setInitialAddressButtonTarget] = useState<HTMLElement | null>(null);
     const [initialAddressItem, setInitialAddressItem] = useState<AddressItem | null>(null);
@@ -376,16 +481,142 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
     const containerRef = useRef<HTMLDivElement>(null);
     const hoverTimeoutRef = useRef<number | null>(null);
     const initialAddressHoverTimeoutRef = useRef<number | null>(null);
+    const manualEntryTimeoutRef = useRef<number | null>(null);
+    const geolocationRequestedRef = useRef<boolean>(false);
+    const sessionRef = useRef<AutocompleteSession | null>(null);
+    const sessionTimeoutRef = useRef<number | null>(null);
+    const suggestionRequestRef = useRef<AbortController | null>(null);
+    // Incremented by every selection, clear and edit so only the latest selection's details update the address
+    const selectionRequestRef = useRef<number>(0);
     const debouncedValue = useDebounce<string>(value, DEBOUNCE_DELAY);
 
+    const providerConfig = React.useMemo<GeocodingProviderConfig>(() => ({
+        provider: props.provider || 'google',
+        apiKey: props.apiToken || '',
+        endpoint: props.providerEndpoint || undefined,
+        cacheMode: props.cacheMode || 'memory',
+        language: props.language || undefined,
+        region: props.region || undefined
+    }), [props.provider, props.apiToken, props.providerEndpoint, props.cacheMode, props.language, props.region]);
+
+    const defaultSearchTypes = React.useMemo<SearchTypeOption[]>(() => {
+        const parsed = parseSearchTypes(props.defaultSearchTypes);
+        return parsed.length > 0 ? parsed : ['address'];
+    }, [props.defaultSearchTypes]);
+
+    const providerSearchTypes = React.useMemo<string[]>(
+        () => toProviderSearchTypes(searchTypes.length > 0 ? searchTypes : defaultSearchTypes),
+        [searchTypes, defaultSearchTypes]
+    );
+
+    // Area that suggestions are biased towards, if any
+    const locationBias = React.useMemo<LocationCircle | undefined>(() => {
+        const radius = (props.locationBiasRadius && props.locationBiasRadius > 0 ? props.locationBiasRadius : DEFAULT_BIAS_RADIUS_KM) * 1000;
+        const toCircle = (latitude?: number, longitude?: number): LocationCircle | undefined =>
+            typeof latitude === 'number' && typeof longitude === 'number' && !(latitude === 0 && longitude === 0)
+                ? { latitude, longitude, radius }
+                : undefined;
+
+        switch (props.locationBiasMode) {
+            case 'browser':
+                return browserPosition ? toCircle(browserPosition.latitude, browserPosition.longitude) : undefined;
+            case 'record':
+                return toCircle(props.initialAddress?.latitude, props.initialAddress?.longitude);
+            case 'configured':
+                return toCircle(props.locationBiasLatitude, props.locationBiasLongitude);
+            default:
+                return undefined;
+        }
+    }, [props.locationBiasMode, props.locationBiasLatitude, props.locationBiasLongitude, props.locationBiasRadius,
+        props.initialAddress?.latitude, props.initialAddress?.longitude, browserPosition]);
+    // Read by the suggestion lookup without re-running it, so a browser position arriving mid-query
+    // only biases the next query instead of billing the current one twice
+    const locationBiasRef = useRef<LocationCircle | undefined>(locationBias);
+    locationBiasRef.current = locationBias;
+
+    // Ask for the browser position once the user starts typing rather than when the form loads
+    useEffect(() => {
+        if (props.locationBiasMode !== 'browser' || !hasUserInteracted || geolocationRequestedRef.current || !navigator.geolocation) {
+            return;
+        }
+
+        geolocationRequestedRef.current = true;
+        navigator.geolocation.getCurrentPosition(
+            position => setBrowserPosition({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+            () => {
+                // Permission denied or unavailable - search without a bias
+            },
+            { maximumAge: GEOLOCATION_MAX_AGE, timeout: 10000 }
+        );
+    }, [props.locationBiasMode, hasUserInteracted]);
+
+    // Detach the current session without closing it (used when a details request concludes it)
+    const detachSession = (): AutocompleteSession | null => {
+        const session = sessionRef.current;
+        sessionRef.current = null;
+        if (sessionTimeoutRef.current) {
+            clearTimeout(sessionTimeoutRef.current);
+            sessionTimeoutRef.current = null;
+        }
+        return session;
+    };
+
+    const endSession = () => {
+        const session = detachSession();
+        if (session) {
+            closeAutocompleteSession(providerConfig, session);
+        }
+    };
+
+    // Abort the in-flight suggestion request so a late response cannot overwrite newer state
+    const cancelSuggestionRequest = () => {
+        if (suggestionRequestRef.current) {
+            suggestionRequestRef.current.abort();
+            suggestionRequestRef.current = null;
+        }
+        isLoading.current = false;
+    };
+
+    // Discard the details lookup of an earlier selection that has not returned yet
+    const cancelSelectionRequest = () => {
+        selectionRequestRef.current++;
+    };
+
+    // Switch to manual entry while the provider's circuit breaker is open, and back once it closes; leaving the mode re-runs the pending lookup
+    const enterManualEntryMode = () => {
+        setIsManualEntryMode(true);
+        if (manualEntryTimeoutRef.current) {
+            clearTimeout(manualEntryTimeoutRef.current);
+        }
+        manualEntryTimeoutRef.current = window.setTimeout(() => {
+            manualEntryTimeoutRef.current = null;
+            setIsManualEntryMode(false);
+        }, getProviderCooldown(providerConfig));
+    };
+
+    // Start a session on the first keystroke and keep it alive while the user is typing
+    const touchSession = () => {
+        if (!sessionRef.current) {
+            sessionRef.current = createAutocompleteSession();
+        }
+        if (sessionTimeoutRef.current) {
+            clearTimeout(sessionTimeoutRef.current);
+        }
+        sessionTimeoutRef.current = window.setTimeout(endSession, SESSION_TIMEOUT);
+    };
+
     const handleSearch = (evt: ChangeEvent<HTMLInputElement> | undefined) => {
         if (evt !== undefined) {
             const newValue = evt.target.value;
             // Only trigger search if the value actually changed
             if (newValue !== value) {
+                cancelSelectionRequest();
+                touchSession();
                 isLoading.current = true;
                 isSelected.current = false;
                 setHasUserInteracted(true);
+                setLocationError(null);
+                dismissValidation();
                 setValue(newValue);
             }
         }
@@ -432,17 +663,98 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
         }
     }, [props.initialAddress]);
 
+    // Records without a place ID (e.g. migrated data) are geocoded once so the place ID and coordinates can be backfilled
+    const backfillQuery = props.initialAddress && !(props.initialAddress.googlePlaceId || '').trim()
+        ? [
+            props.initialAddress.street,
+            props.initialAddress.city,
+            props.initialAddress.state,
+            props.initialAddress.postcode,
+            props.initialAddress.country
+        ].filter(part => part && part.trim() !== '').join(', ')
+        : '';
+    const backfillAttemptRef = useRef<string>('');
+
     useEffect(() => {
+        const initial = props.initialAddress;
+        if (!props.backfillLocation || props.isDisabled || !initial || !initial.street || !initial.city ||
+            !backfillQuery || backfillAttemptRef.current === backfillQuery || !isProviderConfigured(providerConfig)) {
+            return;
+        }
+
+        // Only try each address once per load, even if the lookup fails
+        backfillAttemptRef.current = backfillQuery;
+        let isCancelled = false;
+
+        geocodeAddress(providerConfig, backfillQuery)
+            .then(response => {
+                if (isCancelled || !response.result.placeId) {
+                    return;
+                }
+
+                // Coordinates already on the record are kept; only missing ones are filled in
+                const hasCoordinates = Boolean(initial.latitude && initial.longitude);
+                props.updateLocation(hasCoordinates
+                    ? { googlePlaceId: response.result.placeId }
+                    : {
+                        googlePlaceId: response.result.placeId,
+                        latitude: GooglePlacesUtils.getLatitude(response.result),
+                        longitude: GooglePlacesUtils.getLongitude(response.result)
+                    });
+            })
+            .catch(() => {
+                // Unresolvable addresses stay as they are; the hover card still shows the record values
+            });
+
+        return () => {
+            isCancelled = true;
+        };
+    }, [backfillQuery, props.backfillLocation, props.isDisabled, providerConfig]);
+
+    useEffect(() => {
+        // Only the latest query may update the suggestions, so each run gets its own controller
+        const controller = new AbortController();
+
         async function fetchSuggestions() {
             try {
-                // Ensure apiToken is not undefined
-                if (!props.apiToken) {
+                // Ensure the provider has an API key and endpoint if it needs them
+                const configurationError = getConfigurationError(providerConfig);
+                if (configurationError) {
                     isLoading.current = false;
+                    setSuggestionError(configurationError);
                     setSuggestions([]);
                     return;
                 }
 
-                const response = await fetchAddressSuggestions(debouncedValue, props.apiToken, countryRestrictionEnabled ? props.countryRestriction : undefined);
+                // While the circuit breaker is open, skip the lookup and offer manual entry straight away
+                const cooldown = getProviderCooldown(providerConfig);
+                if (cooldown > 0) {
+                    isLoading.current = false;
+                    setSuggestionError(new PlacesError(
+                        'SERVICE_UNAVAILABLE',
+                        '',
+                        `Lookups paused for ${Math.ceil(cooldown / 1000)}s after repeated failures`
+                    ));
+                    setSuggestions([]);
+                    if (!isManualEntryMode) {
+                        enterManualEntryMode();
+                    }
+                    return;
+                }
+
+                const response = await fetchAddressSuggestions(providerConfig, {
+                    input: debouncedValue,
+                    countryRestriction: countryRestrictionEnabled ? props.countryRestriction : undefined,
+                    searchTypes: providerSearchTypes,
+                    locationBias: locationBiasRef.current,
+                    locationRestriction: props.locationRestriction,
+                    session: sessionRef.current || undefined,
+                    signal: controller.signal
+                });
+
+                if (controller.signal.aborted) {
+                    return;
+                }
 
                 if (response.status === 'OK') {
                     const addressItems: AddressItem[] = response.predictions.map((prediction: PlacePrediction) => ({
@@ -460,22 +772,36 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                     setSuggestions([]);
                 }
             } catch (error) {
+                // A cancelled request has been superseded, so leave the current state alone
+                if (controller.signal.aborted || isAbortError(error)) {
+                    return;
+                }
+                const placesError = toPlacesError(error);
                 isLoading.current = false;
+                setSuggestionError(placesError);
                 setSuggestions([]);
+                if (placesError.code === 'SERVICE_UNAVAILABLE' || getProviderCooldown(providerConfig) > 0) {
+                    enterManualEntryMode();
+                }
             }
         }
 
+        cancelSuggestionRequest();
+        setSuggestionError(null);
+
         if (hasUserInteracted && !isSelected.current && debouncedValue.length > MIN_SEARCH_LENGTH) {
+            suggestionRequestRef.current = controller;
             isLoading.current = true;
             setSuggestions([]);
             fetchSuggestions();
         } else {
-            isLoading.current = false;
             setSuggestions([]);
         }
 
         getInputWidth();
-    }, [debouncedValue, props.apiToken, hasUserInteracted, countryRestrictionEnabled]);
+
+        return () => controller.abort();
+    }, [debouncedValue, providerConfig, hasUserInteracted, countryRestrictionEnabled, providerSearchTypes, props.locationRestriction, isManualEntryMode]);
 
     // Handle clicks outside the component
     useEffect(() => {
@@ -512,7 +838,72 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
         };
     }, []);
 
+    // Cancel pending lookups and close any open autocomplete session when the control is destroyed
+    useEffect(() => {
+        return () => {
+            cancelSuggestionRequest();
+            cancelSelectionRequest();
+            endSession();
+            if (manualEntryTimeoutRef.current) {
+                clearTimeout(manualEntryTimeoutRef.current);
+            }
+        };
+    }, []);
+
+    const isValidationEnabled = Boolean(props.addressValidation && props.addressValidation !== 'none');
+
+    // Hide the verdict; the bound output is only reset when the address itself changes
+    const dismissValidation = () => {
+        validationRequestRef.current++;
+        setValidationResult(null);
+        setIsValidating(false);
+        setValidationFailed(false);
+    };
+
+    // The address changed without a provider result to validate (cleared, typed in, fallback)
+    const resetValidation = () => {
+        dismissValidation();
+        if (isValidationEnabled && props.updateValidation) {
+            props.updateValidation(null);
+        }
+    };
+
+    const runValidation = async (place: PlaceResult, query?: string) => {
+        dismissValidation();
+        if (!isValidationEnabled) {
+            return;
+        }
+
+        // Only the latest selection may report a verdict
+        const requestId = validationRequestRef.current;
+        setIsValidating(true);
+
+        try {
+            const result = await validateAddress(providerConfig, props.addressValidation as AddressValidationMode, { place, query });
+            if (requestId === validationRequestRef.current) {
+                setValidationResult(result);
+                if (props.updateValidation) {
+                    props.updateValidation(result);
+                }
+            }
+        } catch (error) {
+            if (requestId === validationRequestRef.current) {
+                setValidationFailed(true);
+                if (props.updateValidation) {
+                    props.updateValidation(null);
+                }
+            }
+        } finally {
+            if (requestId === validationRequestRef.current) {
+                setIsValidating(false);
+            }
+        }
+    };
+
     const onClear = () => {
+        cancelSuggestionRequest();
+        cancelSelectionRequest();
+        endSession();
         setValue('');
         setSuggestions([]);
         setHasUserInteracted(false); // Reset interaction state when clearing
@@ -530,10 +921,27 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
             postcode: ''
         };
         props.updateValue(emptyAddress);
+        resetValidation();
     };
 
+    // Basic address built from the suggestion itself; the place ID is kept so details can be recovered later
+    const getFallbackAddress = (item: AddressItem): ParsedAddress => ({
+        fullAddress: item.description,
+        street: item.mainText || '',
+        suburb: '',
+        city: '',
+        state: '',
+        country: '',
+        latitude: undefined,
+        longitude: undefined,
+        building: '',
+        postcode: '',
+        googlePlaceId: item.placeId
+    });
+
     const onSelect = async (item: AddressItem) => {
         if (item !== null && item !== undefined) {
+            cancelSuggestionRequest();
             isSelected.current = true;
             setSuggestions([]);
             setHoveredItem(null); // Close hover card
@@ -546,64 +954,63 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                 clearTimeout(hoverTimeoutRef.current);
             }
 
+            cancelSelectionRequest();
+            const requestId = selectionRequestRef.current;
+
             try {
-                // Fetch detailed place information to get address components
-                const placeDetailsResponse = await fetchPlaceDetails(item.placeId, props.apiToken || '');
+                // Fetch detailed place information to get address components, concluding the session
+                const session = detachSession();
+                const placeDetailsResponse = await fetchPlaceDetails(providerConfig, {
+                    placeId: item.placeId,
+                    fieldSet: props.selectionFieldSet || 'address',
+                    session: session || undefined
+                });
+
+                // Cleared, edited, replaced by another selection or destroyed while the details were loading
+                if (requestId !== selectionRequestRef.current) {
+                    return;
+                }
 
                 if (placeDetailsResponse.status === 'OK' && placeDetailsResponse.result) {
                     const parsedAddress = GooglePlacesUtils.parseAddressComponents(
                         placeDetailsResponse.result,
                         props.stateReturnShortName || false,
-                        props.countryReturnShortName || false
+                        props.countryReturnShortName || false,
+                        props.addressParseOptions
                     );
 
                     // Set the input value to the street address only
                     setValue(parsedAddress.street || '');
                     props.updateValue(parsedAddress);
+                    runValidation(placeDetailsResponse.result, item.description);
                 } else {
-                    // Fallback to basic address if place details fail
-                    const basicAddress: ParsedAddress = {
-                        fullAddress: item.description,
-                        street: '',
-                        suburb: '',
-                        city: '',
-                        state: '',
-                        country: '',
-                        latitude: undefined,
-                        longitude: undefined,
-                        building: '',
-                        postcode: ''
-                    };
-
-                    // Set the input value to empty since we don't have street details
-                    setValue('');
-                    props.updateValue(basicAddress);
+                    // Keep the selection using the suggestion text if place details fail
+                    setValue(item.mainText || item.description);
+                    props.updateValue(getFallbackAddress(item));
+                    resetValidation();
                 }
             } catch (error) {
-                // Fallback to basic address if there's an error
-                const basicAddress: ParsedAddress = {
-                    fullAddress: item.description,
-                    street: '',
-                    suburb: '',
-                    city: '',
-                    state: '',
-                    country: '',
-                    latitude: undefined,
-                    longitude: undefined,
-                    building: '',
-                    postcode: ''
-                };
-                props.updateValue(basicAddress);
+                if (requestId !== selectionRequestRef.current) {
+                    return;
+                }
+                // Keep the selection using the suggestion text if the lookup failed after retries
+                setValue(item.mainText || item.description);
+                props.updateValue(getFallbackAddress(item));
+                resetValidation();
             }
         }
     };
 
     const handleSelectPlace = React.useCallback((placeDetails: PlaceResult) => {
+        cancelSuggestionRequest();
+        cancelSelectionRequest();
+        endSession();
         try {
             const parsedAddress = GooglePlacesUtils.parseAddressComponents(
                 placeDetails,
                 props.stateReturnShortName || false,
-                props.countryReturnShortName || false
+                props.countryReturnShortName || false,
+                props.addressParseOptions
             );
 
             // Set the input value to the street address only
@@ -611,6 +1018,7 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
 
             // Update the value through the callback
             props.updateValue(parsedAddress);
+            runValidation(placeDetails);
 
             // Close the callout and clear suggestions
             setCalloutTarget(null);
@@ -620,14 +1028,25 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
         } catch (error) {
             // Error handled silently
         }
-    }, [props.updateValue, props.stateReturnShortName, props.countryReturnShortName]);
+    }, [props.updateValue, props.updateValidation, props.stateReturnShortName, props.countryReturnShortName, props.addressParseOptions, props.addressValidation, providerConfig]);
+
+    // Pin moved on the record's own address: only the coordinates change
+    const handleUpdateLocation = React.useCallback((location: AddressLocation) => {
+        props.updateLocation(location);
+        setIsInitialAddressHovered(false);
+        setInitialAddressButtonTarget(null);
+    }, [props.updateLocation]);
 
     const handleAcceptAsIs = () => {
+        cancelSuggestionRequest();
+        cancelSelectionRequest();
+        endSession();
         try {
             // Create a basic address using the typed value
             const basicAddress: ParsedAddress = {
                 fullAddress: debouncedValue,
                 street: debouncedValue, // Use the typed value as street
+                ...splitStreetLine(debouncedValue),
                 suburb: '',
                 city: '',
                 state: '',
@@ -636,12 +1055,14 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                 longitude: undefined,
                 building: '',
                 postcode: '',
-                googlePlaceId: ''
+                googlePlaceId: '',
+                isManualEntry: true
             };
 
-            // Set the input value and update the parent
+            // Set the input value and update the parent; the "manual" verdict replaces any validation result
             setValue(debouncedValue);
             props.updateValue(basicAddress);
+            dismissValidation();
 
             // Reset interaction state and close suggestions
             setHasUserInteracted(false);
@@ -652,6 +1073,37 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
         }
     };
 
+    // Saved from the manual form or accepted as typed; records without a place ID may simply predate it
+    const isUnverifiedAddress = Boolean(props.initialAddress && props.initialAddress.street && props.initialAddress.isManualEntry);
+
+    // Pre-fill the manual form from the search text, falling back to the current record values
+    const manualFormValues = React.useMemo<Partial<ParsedAddress>>(() => {
+        const typedStreet = hasUserInteracted ? value.trim() : '';
+        if (!typedStreet || typedStreet === props.initialAddress?.street) {
+            return { ...props.initialAddress, street: props.initialAddress?.street || value.trim() };
+        }
+        // The record's street number and name belong to its own street, not the typed one
+        return { ...props.initialAddress, street: typedStreet, ...splitStreetLine(typedStreet) };
+    }, [props.initialAddress, hasUserInteracted, value]);
+
+    const handleOpenManualForm = () => {
+        cancelSuggestionRequest();
+        setIsManualFormOpen(true);
+    };
+
+    const handleManualSubmit = (address: ParsedAddress) => {
+        cancelSelectionRequest();
+        endSession();
+        setValue(address.street || '');
+        props.updateValue(address);
+        dismissValidation();
+
+        setIsManualFormOpen(false);
+        setHasUserInteracted(false);
+        setSuggestions([]);
+        isSelected.current = true;
+    };
+
     const onItemHover = (item: AddressItem, index: number) => {
         // Clear any existing hide timeout
         if (hoverTimeoutRef.current) {
@@ -686,6 +1138,58 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
         }, 200); // Increased delay to 200ms
     };
 
+    // Capture the address at the device's current position (technicians recording where they are on site)
+    const handleUseMyLocation = () => {
+        if (!navigator.geolocation) {
+            setLocationError('Your browser does not support location services');
+            return;
+        }
+
+        cancelSuggestionRequest();
+        endSession();
+        setSuggestions([]);
+        setHasUserInteracted(false);
+        setLocationError(null);
+        setIsLocating(true);
+
+        navigator.geolocation.getCurrentPosition(
+            async position => {
+                const { latitude, longitude } = position.coords;
+                setBrowserPosition({ latitude, longitude });
+
+                if (props.locationRestriction && !isWithinRestriction(props.locationRestriction, latitude, longitude)) {
+                    setIsLocating(false);
+                    setLocationError('Your current location is outside the area addresses are restricted to');
+                    return;
+                }
+
+                try {
+                    const response = await reverseGeocode(providerConfig, latitude, longitude);
+                    isSelected.current = true;
+                    // Record where the device is rather than the centre of the nearest address
+                    handleSelectPlace({
+                        ...response.result,
+                        geometry: { ...response.result.geometry, location: { lat: latitude, lng: longitude } }
+                    });
+                } catch (error) {
+                    const placesError = toPlacesError(error);
+                    setLocationError(placesError.code === 'ZERO_RESULTS' || placesError.code === 'NOT_FOUND'
+                        ? 'No address was found at your current location'
+                        : ERROR_MESSAGES[placesError.code]);
+                } finally {
+                    setIsLocating(false);
+                }
+            },
+            error => {
+                setIsLocating(false);
+                setLocationError(error.code === error.PERMISSION_DENIED
+                    ? 'Location access was denied - allow it in your browser to use your current location'
+                    : 'Your current location could not be determined');
+            },
+            { enableHighAccuracy: true, maximumAge: 0, timeout: CURRENT_LOCATION_TIMEOUT }
+        );
+    };
+
     const handleSettingsClick = (event: React.MouseEvent<HTMLButtonElement>) => {
         event.preventDefault();
         event.stopPropagation();
@@ -698,8 +1202,9 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
         setSettingsButtonTarget(null);
     };
 
-    const handleSearchTypesChange = (types: string[]) => {
+    const handleSearchTypesChange = (types: SearchTypeOption[]) => {
         setSearchTypes(types);
+        saveSearchTypes(searchTypesKey, types);
         // Trigger a new search if user has interacted and there's a value
         if (hasUserInteracted && value.length > MIN_SEARCH_LENGTH) {
             setSuggestions([]);
@@ -767,7 +1272,7 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                         <div className={style.searchBoxContainer}>
                             <SearchBox
                                 className={style.searchBox}
-                                placeholder="Search for an address..."
+                                placeholder={isManualEntryMode ? 'Enter the address manually...' : 'Search for an address...'}
                                 value={value}
                                 onChange={handleSearch}
                                 onClear={onClear}
@@ -784,6 +1289,27 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                                     ariaLabel="Show current address information"
                                 />
                             )}
+                            {isUnverifiedAddress && !props.isDisabled && (
+                                <IconButton
+                                    className={style.helperButton}
+                                    iconProps={unverifiedIcon}
+                                    onClick={handleOpenManualForm}
+                                    title="Unverified Address - entered manually. Click to edit"
+                                    ariaLabel="Unverified address, edit manually"
+                                />
+                            )}
+                            {isLocating ? (
+                                <Spinner className={style.helperButton} size={SpinnerSize.small} ariaLabel="Finding your location" />
+                            ) : (
+                                <IconButton
+                                    className={style.helperButton}
+                                    iconProps={locationIcon}
+                                    onClick={handleUseMyLocation}
+                                    disabled={props.isDisabled}
+                                    title="Use My Location"
+                                    ariaLabel="Use the address at my current location"
+                                />
+                            )}
                             <IconButton
                                 className={style.helperButton}
                                 iconProps={settingsIcon}
@@ -796,6 +1322,86 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
 
                 </div>
 
+                {/* Invalid configuration - the built-in defaults are used until it is fixed */}
+                {props.configurationErrors && props.configurationErrors.length > 0 && (
+                    <MessageBar messageBarType={MessageBarType.error} isMultiline={true}>
+                        <div>Some control properties are invalid or missing, so their defaults are used:</div>
+                        <ul style={{ margin: '4px 0', paddingLeft: '20px' }}>
+                            {props.configurationErrors.map((error, index) => (
+                                <li key={index}>{error}</li>
+                            ))}
+                        </ul>
+                    </MessageBar>
+                )}
+
+                {/* Current location lookup failed */}
+                {locationError && (
+                    <FocusZone
+                        direction={FocusZoneDirection.vertical}
+                        className={style.focusZoneContainer}
+                        style={{ width: focusWidth }}
+                    >
+                        <div className={style.focusZoneHeader}>
+                            <div className={style.focusZoneHeaderContentError}>
+                                {locationError}
+                            </div>
+                            <IconButton
+                                iconProps={{ iconName: 'Cancel' }}
+                                onClick={() => setLocationError(null)}
+                                title="Dismiss"
+                                ariaLabel="Dismiss location error"
+                            />
+                        </div>
+                    </FocusZone>
+                )}
+
+                {/* Validation verdict for the selected address */}
+                {(isValidating || validationResult || validationFailed) && suggestions.length === 0 && (
+                    <FocusZone
+                        direction={FocusZoneDirection.vertical}
+                        className={style.focusZoneContainer}
+                        style={{ width: focusWidth }}
+                    >
+                        <div className={style.focusZoneHeader}>
+                            {isValidating ? (
+                                <div className={style.focusZoneHeaderContent}>
+                                    <Spinner size={SpinnerSize.small} labelPosition="right" label="Validating address..." />
+                                </div>
+                            ) : (
+                                <div
+                                    className={validationResult && validationResult.verdict !== 'unconfirmed' ? style.focusZoneHeaderContent : style.focusZoneHeaderContentError}
+                                >
+                                    {validationFailed && 'Address could not be validated - please check it before saving'}
+                                    {validationResult && validationResult.verdict === 'confirmed' && 'Address confirmed'}
+                                    {validationResult && validationResult.verdict === 'inferred' && 'Address confirmed with corrections'}
+                                    {validationResult && validationResult.verdict === 'unconfirmed' && 'Address could not be fully confirmed'}
+                                </div>
+                            )}
+                            <IconButton
+                                iconProps={{ iconName: 'Cancel' }}
+                                onClick={dismissValidation}
+                                title="Dismiss"
+                                ariaLabel="Dismiss address validation"
+                            />
+                        </div>
+                        {validationResult && validationResult.missingComponents.length > 0 && (
+                            <div className={style.focusZoneErrorDetail}>
+                                {`Missing: ${describeComponents(validationResult.missingComponents)}`}
+                            </div>
+                        )}
+                        {validationResult && validationResult.unconfirmedComponents.length > 0 && (
+                            <div className={style.focusZoneErrorDetail}>
+                                {`Unconfirmed: ${describeComponents(validationResult.unconfirmedComponents)}`}
+                            </div>
+                        )}
+                        {validationResult && validationResult.inferredComponents.length > 0 && (
+                            <div className={style.focusZoneErrorDetail}>
+                                {`Inferred or corrected: ${describeComponents(validationResult.inferredComponents)}`}
+                            </div>
+                        )}
+                    </FocusZone>
+                )}
+
                 {/* FocusZone Section/Dropdown */}
                 {suggestions.length > 0 && (
                     <FocusZone
@@ -810,7 +1416,7 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                         <div className={style.focusZoneFooter}>
                             <div className={style.focusZoneFooterLeft}>
                                 <Label style={{ fontSize: '12px', margin: 0, color: '#666', fontWeight: 'normal' }}>
-                                    Powered by Google™
+                                    {getGeocodingProvider(providerConfig).attribution}
                                 </Label>
                             </div>
                             <div className={style.focusZoneFooterRight}>
@@ -864,7 +1470,7 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                     </FocusZone>
                 )}
 
-                {/* No results found */}
+                {/* No results found or lookup failed */}
                 {!isLoading.current && suggestions.length === 0 && debouncedValue.length > MIN_SEARCH_LENGTH && hasUserInteracted && (
                     <FocusZone
                         direction={FocusZoneDirection.vertical}
@@ -872,10 +1478,18 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                         style={{ width: focusWidth }}
                     >
                         <div className={style.focusZoneHeader}>
-                            <div className={style.focusZoneHeaderContentError}>
-                                No results found
+                            <div
+                                className={style.focusZoneHeaderContentError}
+                                title={suggestionError ? suggestionError.message : undefined}
+                            >
+                                {ERROR_MESSAGES[suggestionError ? suggestionError.code : 'ZERO_RESULTS']}
                             </div>
                         </div>
+                        {suggestionError && suggestionError.status && suggestionError.code !== 'ZERO_RESULTS' && (
+                            <div className={style.focusZoneErrorDetail}>
+                                {`Provider status: ${suggestionError.status}`}
+                            </div>
+                        )}
                         <div style={{ padding: '8px 12px', borderTop: `1px solid ${palette.neutralTertiary}` }}>
                             <ActionButton
                                 className={style.focusZoneBtn}
@@ -896,21 +1510,47 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                                     }
                                 }}
                             />
+                            <ActionButton
+                                className={style.focusZoneBtn}
+                                iconProps={{ iconName: 'EditNote' }}
+                                onClick={handleOpenManualForm}
+                                text="Enter Address Manually..."
+                                styles={{
+                                    root: {
+                                        width: '100%',
+                                        justifyContent: 'flex-start',
+                                        backgroundColor: 'transparent',
+                                        marginTop: '6px'
+                                    },
+                                    rootHovered: {
+                                        backgroundColor: palette.neutralLighter
+                                    }
+                                }}
+                            />
                         </div>
                     </FocusZone>
                 )}
 
+                <ManualAddressForm
+                    isOpen={isManualFormOpen}
+                    initialValues={manualFormValues}
+                    onSubmit={handleManualSubmit}
+                    onDismiss={() => setIsManualFormOpen(false)}
+                />
+
                 {/* EntityHoverCard using PlaceDetailsCallout */}
                 <PlaceDetailsCallout
                     hoveredItem={hoveredItem}
                     calloutTarget={calloutTarget}
-                    apiToken={props.apiToken || ''}
+                    providerConfig={providerConfig}
+                    detailsFieldSet={props.detailsFieldSet}
                     onDismiss={() => {
                         setHoveredItem(null);
                         setHoveredItemIndex(-1);
                         setCalloutTarget(null);
                     }}
                     onSelect={handleSelectPlace}
+                    locationRestriction={props.locationRestriction}
                     onMouseEnter={() => {
                         // Clear any existing timeout when hovering over the callout
                         if (hoverTimeoutRef.current) {
@@ -936,7 +1576,8 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                     <PlaceDetailsCallout
                         hoveredItem={initialAddressItem}
                         calloutTarget={initialAddressButtonTarget}
-                        apiToken={props.apiToken || ''}
+                        providerConfig={providerConfig}
+                        detailsFieldSet={props.detailsFieldSet}
                         initialAddressData={props.initialAddress ? {
                             street: props.initialAddress.street,
                             city: props.initialAddress.city,
@@ -951,6 +1592,8 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                             setInitialAddressButtonTarget(null);
                         }}
                         onSelect={handleSelectPlace}
+                        onUpdateLocation={handleUpdateLocation}
+                        locationRestriction={props.locationRestriction}
                         onMouseEnter={() => {
                             // Clear any existing timeout when hovering over the callout
                             if (initialAddressHoverTimeoutRef.current) {
@@ -979,7 +1622,9 @@ export const FluentUIAutoComplete: React.FC<FluentUIAutoCompleteProps> = (props)
                     countryRestriction={props.countryRestriction}
                     countryRestrictionEnabled={countryRestrictionEnabled}
                     onCountryRestrictionChange={setCountryRestrictionEnabled}
+                    locationRestriction={props.locationRestriction}
                     searchTypes={searchTypes}
+                    defaultSearchTypes={defaultSearchTypes}
                     onSearchTypesChange={handleSearchTypesChange}
                 />
             </div>
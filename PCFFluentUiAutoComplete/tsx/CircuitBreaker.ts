@@ -0,0 +1,38 @@
+// Circuit breaker for provider lookups, shared by every control instance using the same provider
+// After enough consecutive failures the circuit opens and lookups fail fast until the cooldown ends
+
+export class CircuitBreaker {
+    private _failureThreshold: number;
+    private _cooldown: number;
+    private _consecutiveFailures = 0;
+    private _openUntil = 0;
+
+    constructor(failureThreshold: number, cooldown: number) {
+        this._failureThreshold = failureThreshold;
+        this._cooldown = cooldown;
+    }
+
+    public isOpen(): boolean {
+        return this.getRemainingCooldown() > 0;
+    }
+
+    // Milliseconds until lookups are allowed again (0 when the circuit is closed)
+    public getRemainingCooldown(): number {
+        return Math.max(0, this._openUntil - Date.now());
+    }
+
+    public recordSuccess(): void {
+        this._consecutiveFailures = 0;
+        this._openUntil = 0;
+    }
+
+    public recordFailure(): void {
+        this._consecutiveFailures++;
+
+        if (this._consecutiveFailures >= this._failureThreshold) {
+            this._openUntil = Date.now() + this._cooldown;
+            // Start counting afresh once the cooldown ends so a single failure does not reopen it
+            this._consecutiveFailures = 0;
+        }
+    }
+}
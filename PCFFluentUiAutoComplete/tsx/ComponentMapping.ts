@@ -0,0 +1,124 @@
+// Parse and validate the componentMapping manifest property
+// Example: {"city": ["postal_town", "locality"], "state": {"types": ["administrative_area_level_1"], "name": "short"}}
+
+import { AddressComponentMapping, ComponentRule, MappedAddressField } from '../types';
+
+const MAPPED_FIELDS: MappedAddressField[] = ['street', 'suburb', 'city', 'state', 'country', 'building', 'postcode', 'unit', 'streetNumber', 'streetName', 'county'];
+const RULE_KEYS = ['types', 'name', 'combine'];
+
+// Google component types are lower case snake case (postal_town, administrative_area_level_2)
+const COMPONENT_TYPE_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export interface ComponentMappingParseResult {
+    mapping?: AddressComponentMapping;
+    // Problems found in the configuration; the mapping is ignored when there are any
+    errors: string[];
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseComponentType(value: unknown, path: string, errors: string[]): string | undefined {
+    if (typeof value !== 'string' || !COMPONENT_TYPE_PATTERN.test(value)) {
+        errors.push(`${path} must be a Google address component type such as "locality" (got ${JSON.stringify(value)})`);
+        return undefined;
+    }
+    return value;
+}
+
+// A rule is a component type, or an object with types and optional name/combine
+function parseRule(value: unknown, path: string, errors: string[]): ComponentRule | undefined {
+    if (typeof value === 'string') {
+        const type = parseComponentType(value, path, errors);
+        return type ? { types: [type] } : undefined;
+    }
+
+    if (!isPlainObject(value)) {
+        errors.push(`${path} must be a component type or an object with "types"`);
+        return undefined;
+    }
+
+    const errorCount = errors.length;
+    Object.keys(value)
+        .filter(key => RULE_KEYS.indexOf(key) === -1)
+        .forEach(key => errors.push(`${path} has unknown setting "${key}" - expected ${RULE_KEYS.join(', ')}`));
+
+    const rawTypes = typeof value.types === 'string' ? [value.types] : value.types;
+    const types: string[] = [];
+    if (!Array.isArray(rawTypes) || rawTypes.length === 0) {
+        errors.push(`${path}.types must be a component type or a non-empty list of component types`);
+    } else {
+        rawTypes.forEach((type, index) => {
+            const parsed = parseComponentType(type, `${path}.types[${index}]`, errors);
+            if (parsed) {
+                types.push(parsed);
+            }
+        });
+    }
+
+    if (value.name !== undefined && value.name !== 'long' && value.name !== 'short') {
+        errors.push(`${path}.name must be "long" or "short"`);
+    }
+
+    if (value.combine !== undefined && typeof value.combine !== 'boolean') {
+        errors.push(`${path}.combine must be true or false`);
+    }
+
+    if (errors.length > errorCount) {
+        return undefined;
+    }
+
+    return {
+        types,
+        name: value.name as ComponentRule['name'],
+        combine: value.combine as boolean | undefined
+    };
+}
+
+/**
+ * Parse the JSON mapping from bound fields to Google address component types.
+ * Each field takes a component type, a rule object, or a list of either tried in order as fallbacks.
+ */
+export function parseComponentMapping(value?: string | null): ComponentMappingParseResult {
+    if (!value || !value.trim()) {
+        return { errors: [] };
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(value);
+    } catch (error) {
+        return { errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+
+    if (!isPlainObject(json)) {
+        return { errors: ['Must be a JSON object keyed by field name, e.g. {"city": ["postal_town", "locality"]}'] };
+    }
+
+    const config = json;
+    const errors: string[] = [];
+    const mapping: AddressComponentMapping = {};
+
+    Object.keys(config).forEach(key => {
+        if (MAPPED_FIELDS.indexOf(key as MappedAddressField) === -1) {
+            errors.push(`Unknown field "${key}" - expected one of ${MAPPED_FIELDS.join(', ')}`);
+            return;
+        }
+
+        const field = key as MappedAddressField;
+        const isList = Array.isArray(config[key]);
+        const entries = isList ? config[key] as unknown[] : [config[key]];
+        if (entries.length === 0) {
+            errors.push(`${field} must list at least one component type`);
+            return;
+        }
+
+        const rules = entries
+            .map((entry, index) => parseRule(entry, isList ? `${field}[${index}]` : field, errors))
+            .filter((rule): rule is ComponentRule => rule !== undefined);
+        mapping[field] = rules;
+    });
+
+    return errors.length > 0 ? { errors } : { mapping, errors };
+}
@@ -0,0 +1,29 @@
+// Split the parsed address into the Dynamics 365 address line columns (address1_line1..3)
+// Line 1 is always the street, the same value as the street output, so views and duplicate detection keep matching on it
+
+import { ParsedAddress } from '../types';
+import { formatUnit, getPremise, getSeparateUnit } from './PostalLabel';
+
+export interface D365AddressLines {
+    line1: string;
+    line2: string;
+    line3: string;
+}
+
+/**
+ * Street on line 1, unit on line 2 and building name on line 3.
+ * The unit is left out when the street template already rendered it (e.g. "2/15 Smith St"), the building when
+ * it is only the unit or repeats the street, and the building moves up to line 2 when there is no unit.
+ */
+export function splitD365AddressLines(address: ParsedAddress): D365AddressLines {
+    const extraLines = [
+        formatUnit(getSeparateUnit(address), 'Unit'),
+        getPremise(address)
+    ].filter(line => line !== '');
+
+    return {
+        line1: address.street || '',
+        line2: extraLines[0] || '',
+        line3: extraLines[1] || ''
+    };
+}
@@ -1,12 +1,12 @@
 import * as React from 'react';
-import { PlaceResult, GooglePlacesUtils } from '../types';
+import { PlaceResult, GooglePlacesUtils, GeocodingProviderConfig, PlaceDetailsFieldSet, AddressLocation, LocationRestriction } from '../types';
 import { Stack, IStackTokens } from '@fluentui/react/lib/Stack';
 import { Text } from '@fluentui/react/lib/Text';
 import { Link } from '@fluentui/react/lib/Link';
 import { Spinner, SpinnerSize } from '@fluentui/react/lib/Spinner';
 import { Icon } from '@fluentui/react/lib/Icon';
 import { IconButton, DefaultButton } from '@fluentui/react/lib/Button';
-import { fetchPlaceDetails } from './Queries';
+import { fetchPlaceDetails, geocodeAddress, reverseGeocode, getGeocodingProvider, getStaticMapUrl, getConfigurationError, loadInteractiveMap } from './Queries';
 import { PlaceDetailsDialog } from './PlaceDetailsDialog';
 import { getTheme, mergeStyleSets } from '@fluentui/react/lib/Styling';
 
@@ -79,7 +79,9 @@ const headerStyles = mergeStyleSets({
 
 interface IHoverCardProps {
     placeId?: string;
-    apiKey: string;
+    providerConfig: GeocodingProviderConfig;
+    // Richer fields for display; selection itself only needs the address fields
+    fieldSet?: PlaceDetailsFieldSet;
     // Alternative lookup methods
     addressComponents?: {
         street?: string;
@@ -95,6 +97,8 @@ interface IHoverCardProps {
     arrowPosition?: number;
     onLoading?: (isLoading: boolean) => void;
     onSelect?: (placeDetails: PlaceResult) => void;
+    onUpdateLocation?: (location: AddressLocation) => void;
+    locationRestriction?: LocationRestriction;
     onClose?: () => void;
     showCoordinates?: boolean;
     showRatings?: boolean;
@@ -102,12 +106,15 @@ interface IHoverCardProps {
 
 export const HoverCard: React.FC<IHoverCardProps> = ({
     placeId,
-    apiKey,
+    providerConfig,
+    fieldSet = 'basic',
     addressComponents,
     coordinates,
     arrowPosition = 24,
     onLoading,
     onSelect,
+    onUpdateLocation,
+    locationRestriction,
     onClose,
     showCoordinates = true,
     showRatings = true
@@ -119,15 +126,20 @@ export const HoverCard: React.FC<IHoverCardProps> = ({
     const [isDialogOpen, setIsDialogOpen] = React.useState(false);
     const mapRef = React.useRef<HTMLDivElement>(null);
     const mapInstanceRef = React.useRef<google.maps.Map | null>(null);
+    const supportsInteractiveMap = getGeocodingProvider(providerConfig).supportsInteractiveMap;
+    const staticMapUrl = !supportsInteractiveMap && placeDetails && (GooglePlacesUtils.getLatitude(placeDetails) !== 0 || GooglePlacesUtils.getLongitude(placeDetails) !== 0)
+        ? getStaticMapUrl(providerConfig, GooglePlacesUtils.getLatitude(placeDetails), GooglePlacesUtils.getLongitude(placeDetails), { width: CARD_WIDTH - 32, height: MAP_HEIGHT })
+        : '';
 
     React.useEffect(() => {
         const fetchDetails = async () => {
             console.log('PCF HoverCard: Starting lookup process');
             console.log('PCF HoverCard: Input parameters - placeId:', placeId, 'addressComponents:', addressComponents, 'coordinates:', coordinates);
             
-            if (!apiKey) {
-                console.log('PCF HoverCard: No API key provided');
-                setError('API key is required');
+            // A missing API key or provider endpoint
+            const configurationError = getConfigurationError(providerConfig);
+            if (configurationError) {
+                setError(configurationError.message);
                 setIsLoading(false);
                 if (onLoading) onLoading(false);
                 return;
@@ -137,26 +149,35 @@ export const HoverCard: React.FC<IHoverCardProps> = ({
             let lookupMethod = '';
             let lookupValue: string | null = null;
 
+            // The record's address and coordinates, also used when its place ID cannot be looked up
+            const getFallbackLookup = (): { method: string; value: string } | null => {
+                if (addressComponents && (addressComponents.street || addressComponents.city)) {
+                    // Construct address string for geocoding
+                    const addressParts = [
+                        addressComponents.street,
+                        addressComponents.city,
+                        addressComponents.state,
+                        addressComponents.country
+                    ].filter(part => part && part.trim() !== '');
+
+                    return { method: 'address', value: addressParts.join(', ') };
+                }
+                if (coordinates && coordinates.latitude && coordinates.longitude) {
+                    return { method: 'coordinates', value: `${coordinates.latitude},${coordinates.longitude}` };
+                }
+                return null;
+            };
+
+            const fallbackLookup = getFallbackLookup();
+
             if (placeId && placeId.trim() !== '') {
                 lookupMethod = 'placeId';
                 lookupValue = placeId.trim();
                 console.log('PCF HoverCard: Using Place ID lookup:', lookupValue);
-            } else if (addressComponents && (addressComponents.street || addressComponents.city)) {
-                lookupMethod = 'address';
-                // Construct address string for geocoding
-                const addressParts = [
-                    addressComponents.street,
-                    addressComponents.city,
-                    addressComponents.state,
-                    addressComponents.country
-                ].filter(part => part && part.trim() !== '');
-                
-                lookupValue = addressParts.join(', ');
-                console.log('PCF HoverCard: Using reconstructed address lookup:', lookupValue);
-            } else if (coordinates && coordinates.latitude && coordinates.longitude) {
-                lookupMethod = 'coordinates';
-                lookupValue = `${coordinates.latitude},${coordinates.longitude}`;
-                console.log('PCF HoverCard: Using coordinates lookup:', lookupValue);
+            } else if (fallbackLookup) {
+                lookupMethod = fallbackLookup.method;
+                lookupValue = fallbackLookup.value;
+                console.log('PCF HoverCard: Using', lookupMethod, 'lookup:', lookupValue);
             } else {
                 console.log('PCF HoverCard: No valid lookup method available');
                 setError('No place ID, coordinates, or address components provided for lookup');
@@ -174,59 +195,90 @@ export const HoverCard: React.FC<IHoverCardProps> = ({
                 
                 if (lookupMethod === 'placeId') {
                     console.log('PCF HoverCard: Calling fetchPlaceDetails with Place ID:', lookupValue);
-                    response = await fetchPlaceDetails(lookupValue!, apiKey);
-                    console.log('PCF HoverCard: Place ID lookup response:', response);
-                } else if (lookupMethod === 'coordinates') {
-                    console.log('PCF HoverCard: Creating mock result for coordinates:', lookupValue);
-                    // TODO: Implement reverse geocoding API call
-                    // For now, create a basic place result from coordinates
-                    response = {
-                        status: 'OK',
-                        result: {
-                            placeId: '',
-                            formattedAddress: `Location at ${lookupValue}`,
-                            name: 'Geographic Location',
-                            geometry: {
-                                location: {
-                                    lat: coordinates!.latitude,
-                                    lng: coordinates!.longitude
-                                }
-                            },
-                            addressComponents: [],
-                            types: ['geographic_location']
+                    try {
+                        response = await fetchPlaceDetails(providerConfig, { placeId: lookupValue!, fieldSet });
+                        console.log('PCF HoverCard: Place ID lookup response:', response);
+                    } catch (placeIdError) {
+                        // Some IDs cannot be looked up again (e.g. Azure Maps IDs saved by older versions)
+                        if (!fallbackLookup) {
+                            throw placeIdError;
                         }
-                    };
-                } else if (lookupMethod === 'address') {
-                    console.log('PCF HoverCard: Processing reconstructed address:', lookupValue);
-                    // Check if we have coordinates available to use with the reconstructed address
-                    const hasValidCoordinates = coordinates && coordinates.latitude !== 0 && coordinates.longitude !== 0;
-                    console.log('PCF HoverCard: Available coordinates:', coordinates, 'Valid:', hasValidCoordinates);
-                    
-                    // TODO: Implement geocoding API call for addresses without coordinates
-                    // For now, create a place result using available coordinates or default to 0,0
-                    response = {
-                        status: 'OK',
-                        result: {
-                            placeId: '',
-                            formattedAddress: lookupValue!,
-                            name: addressComponents!.street || addressComponents!.city || 'Address',
-                            geometry: {
-                                location: {
-                                    lat: hasValidCoordinates ? coordinates!.latitude : 0,
-                                    lng: hasValidCoordinates ? coordinates!.longitude : 0
+                        lookupMethod = fallbackLookup.method;
+                        lookupValue = fallbackLookup.value;
+                    }
+                }
+
+                if (lookupMethod === 'coordinates') {
+                    try {
+                        const reverseResponse = await reverseGeocode(providerConfig, coordinates!.latitude, coordinates!.longitude);
+                        // Keep the recorded position; the nearest address can be some distance away
+                        response = {
+                            ...reverseResponse,
+                            result: {
+                                ...reverseResponse.result,
+                                geometry: {
+                                    ...reverseResponse.result.geometry,
+                                    location: { lat: coordinates!.latitude, lng: coordinates!.longitude }
                                 }
-                            },
-                            addressComponents: [],
-                            types: ['street_address']
-                        }
-                    };
-                    console.log('PCF HoverCard: Address result created with coordinates:', response.result.geometry.location);
+                            }
+                        };
+                    } catch (reverseError) {
+                        // No address near these coordinates - show the bare location
+                        response = {
+                            status: 'OK',
+                            result: {
+                                placeId: '',
+                                formattedAddress: `Location at ${lookupValue}`,
+                                name: 'Geographic Location',
+                                geometry: {
+                                    location: {
+                                        lat: coordinates!.latitude,
+                                        lng: coordinates!.longitude
+                                    }
+                                },
+                                addressComponents: [],
+                                types: ['geographic_location']
+                            }
+                        };
+                    }
+                } else if (lookupMethod === 'address') {
+                    try {
+                        response = await geocodeAddress(providerConfig, lookupValue!);
+                    } catch (geocodeError) {
+                        // The address could not be resolved - show it with the record's coordinates if it has any
+                        const hasValidCoordinates = coordinates && coordinates.latitude !== 0 && coordinates.longitude !== 0;
+
+                        response = {
+                            status: 'OK',
+                            result: {
+                                placeId: '',
+                                formattedAddress: lookupValue!,
+                                name: addressComponents!.street || addressComponents!.city || 'Address',
+                                geometry: {
+                                    location: {
+                                        lat: hasValidCoordinates ? coordinates!.latitude : 0,
+                                        lng: hasValidCoordinates ? coordinates!.longitude : 0
+                                    }
+                                },
+                                addressComponents: [],
+                                types: ['street_address']
+                            }
+                        };
+                    }
                 }
 
                 console.log('PCF HoverCard: Final lookup response:', response);
                 if (response && response.status === 'OK') {
                     console.log('PCF HoverCard: Lookup successful, setting place details');
-                    setPlaceDetails(response.result);
+                    // The record's coordinates win over the provider's, so a pin moved with Update Coordinates Only stays put
+                    const hasRecordCoordinates = Boolean(coordinates && coordinates.latitude && coordinates.longitude);
+                    setPlaceDetails(hasRecordCoordinates ? {
+                        ...response.result,
+                        geometry: {
+                            ...response.result.geometry,
+                            location: { lat: coordinates!.latitude, lng: coordinates!.longitude }
+                        }
+                    } : response.result);
                     setError(null);
                 } else {
                     console.error('PCF HoverCard: Lookup failed with status:', response?.status || 'Unknown error');
@@ -243,7 +295,7 @@ export const HoverCard: React.FC<IHoverCardProps> = ({
         };
 
         fetchDetails();
-    }, [placeId, addressComponents, coordinates, apiKey, onLoading]);
+    }, [placeId, addressComponents, coordinates, providerConfig, fieldSet, onLoading]);
 
     // Initialize map when place details are loaded
     React.useEffect(() => {
@@ -265,8 +317,20 @@ export const HoverCard: React.FC<IHoverCardProps> = ({
                 return;
             }
 
-            // Google Maps API should already be loaded by the PCF control
-            if (!window.google?.maps) {
+            // Non-Google providers render a static map image instead
+            if (!supportsInteractiveMap) {
+                setMapLoaded(true);
+                return;
+            }
+
+            // Usually already loaded by the PCF control; the shared loader reuses the same script
+            try {
+                await loadInteractiveMap(providerConfig);
+            } catch (error) {
+                return;
+            }
+
+            if (!isMounted || !mapRef.current) {
                 return;
             }
 
@@ -359,7 +423,7 @@ export const HoverCard: React.FC<IHoverCardProps> = ({
                 mapInstanceRef.current = null;
             }
         };
-    }, [placeDetails]);
+    }, [placeDetails, supportsInteractiveMap]);
 
     const renderAddressComponents = React.useCallback(() => {
         if (!placeDetails) return null;
@@ -666,7 +730,22 @@ export const HoverCard: React.FC<IHoverCardProps> = ({
                             top: 0,
                             left: 0
                         }}
-                    />
+                    >
+                        {staticMapUrl ? (
+                            <img
+                                src={staticMapUrl}
+                                alt={placeDetails.formattedAddress}
+                                style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+                            />
+                        ) : !supportsInteractiveMap && (
+                            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
+                                <Text variant="small" style={{ color: '#666', fontSize: '12px' }}>
+                                    <Icon iconName="MapPin" style={{ marginRight: '4px' }} />
+                                    Map preview not available
+                                </Text>
+                            </div>
+                        )}
+                    </div>
                     {/* Loading overlay - positioned above the map div */}
                     {!mapLoaded && (
                         <div
@@ -740,6 +819,20 @@ export const HoverCard: React.FC<IHoverCardProps> = ({
                         {placeDetails.userRatingsTotal && ` (${placeDetails.userRatingsTotal} reviews)`}
                     </Text>
                 )}
+
+                {/* Contact */}
+                {placeDetails.phoneNumber && (
+                    <Text variant="small">
+                        <Icon iconName="Phone" style={{ marginRight: '4px', color: '#0078d4' }} />
+                        {placeDetails.phoneNumber}
+                    </Text>
+                )}
+                {placeDetails.website && (
+                    <Link href={placeDetails.website} target="_blank" rel="noopener noreferrer" style={{ fontSize: '12px' }}>
+                        <Icon iconName="Globe" style={{ marginRight: '4px' }} />
+                        {placeDetails.website.replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '')}
+                    </Link>
+                )}
             </Stack>
 
             {/* Footer Section - External Links and Expand */}
@@ -830,9 +923,12 @@ export const HoverCard: React.FC<IHoverCardProps> = ({
             {placeDetails && (
                 <PlaceDetailsDialog
                     placeDetails={placeDetails}
+                    providerConfig={providerConfig}
                     isOpen={isDialogOpen}
                     onDismiss={() => setIsDialogOpen(false)}
                     onSelect={onSelect}
+                    onUpdateLocation={onUpdateLocation}
+                    locationRestriction={locationRestriction}
                 />
             )}
         </Stack>
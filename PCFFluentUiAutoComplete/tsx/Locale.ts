@@ -0,0 +1,90 @@
+// Resolve the language and region sent to the geocoding provider
+// Model-driven apps only expose the user's language as an LCID, so the common ones are mapped to BCP 47 tags
+
+import { ProviderLocale } from '../types';
+
+const LCID_LOCALES: { [lcid: number]: string } = {
+    1025: 'ar-SA',
+    1026: 'bg-BG',
+    1027: 'ca-ES',
+    1028: 'zh-TW',
+    1029: 'cs-CZ',
+    1030: 'da-DK',
+    1031: 'de-DE',
+    1032: 'el-GR',
+    1033: 'en-US',
+    1035: 'fi-FI',
+    1036: 'fr-FR',
+    1037: 'he-IL',
+    1038: 'hu-HU',
+    1040: 'it-IT',
+    1041: 'ja-JP',
+    1042: 'ko-KR',
+    1043: 'nl-NL',
+    1044: 'nb-NO',
+    1045: 'pl-PL',
+    1046: 'pt-BR',
+    1048: 'ro-RO',
+    1049: 'ru-RU',
+    1050: 'hr-HR',
+    1051: 'sk-SK',
+    1053: 'sv-SE',
+    1054: 'th-TH',
+    1055: 'tr-TR',
+    1057: 'id-ID',
+    1058: 'uk-UA',
+    1060: 'sl-SI',
+    1061: 'et-EE',
+    1062: 'lv-LV',
+    1063: 'lt-LT',
+    1066: 'vi-VN',
+    1081: 'hi-IN',
+    1086: 'ms-MY',
+    1124: 'fil-PH',
+    2052: 'zh-CN',
+    2055: 'de-CH',
+    2057: 'en-GB',
+    2058: 'es-MX',
+    2060: 'fr-BE',
+    2067: 'nl-BE',
+    2070: 'pt-PT',
+    3076: 'zh-HK',
+    3079: 'de-AT',
+    3081: 'en-AU',
+    3082: 'es-ES',
+    3084: 'fr-CA',
+    4105: 'en-CA',
+    4108: 'fr-CH',
+    5129: 'en-NZ',
+    6153: 'en-IE',
+    7177: 'en-ZA',
+    16393: 'en-IN',
+    18441: 'en-SG'
+};
+
+// English (US) is the default language for most users wherever they are, so it says nothing about their region
+const DEFAULT_LANGUAGE_TAG = 'en-us';
+
+// Region subtag of a BCP 47 tag, e.g. 'fr-CA' -> 'CA'
+function getRegionSubtag(tag: string): string | undefined {
+    const region = tag.split(/[-_]/).slice(1).find(part => /^[A-Za-z]{2}$/.test(part));
+    return region ? region.toUpperCase() : undefined;
+}
+
+/**
+ * Work out the provider language and region from the manifest overrides, the user's LCID or the browser.
+ * The region defaults to the region of the chosen language (en-NZ -> NZ), except for the en-US default,
+ * which would bias NZ and AU users towards US results; then no region is sent unless one is configured.
+ */
+export function resolveProviderLocale(languageId?: number, languageOverride?: string, regionOverride?: string): ProviderLocale {
+    const browserLanguage = typeof navigator !== 'undefined' ? navigator.language : undefined;
+    const language = (languageOverride && languageOverride.trim()) ||
+        (languageId ? LCID_LOCALES[languageId] : undefined) ||
+        browserLanguage ||
+        undefined;
+
+    const region = (regionOverride && regionOverride.trim().toUpperCase()) ||
+        (language && language.toLowerCase().replace('_', '-') !== DEFAULT_LANGUAGE_TAG ? getRegionSubtag(language) : undefined);
+
+    return { language, region };
+}
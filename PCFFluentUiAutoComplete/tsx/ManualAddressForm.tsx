@@ -0,0 +1,177 @@
+import * as React from 'react';
+import { Dialog, DialogType, DialogFooter } from '@fluentui/react/lib/Dialog';
+import { PrimaryButton, DefaultButton } from '@fluentui/react/lib/Button';
+import { TextField } from '@fluentui/react/lib/TextField';
+import { Stack } from '@fluentui/react/lib/Stack';
+import { MessageBar, MessageBarType } from '@fluentui/react/lib/MessageBar';
+import { ParsedAddress } from '../types';
+
+// Editable fields, one per bound address output (coordinates and place ID only come from the provider)
+type ManualAddressField = 'unit' | 'building' | 'street' | 'streetNumber' | 'streetName' | 'suburb' | 'city' | 'county' | 'state' | 'postcode' | 'country';
+
+const FIELDS: { key: ManualAddressField; label: string }[] = [
+    { key: 'unit', label: 'Unit' },
+    { key: 'building', label: 'Building' },
+    { key: 'street', label: 'Street' },
+    { key: 'streetNumber', label: 'Street Number' },
+    { key: 'streetName', label: 'Street Name' },
+    { key: 'suburb', label: 'Suburb' },
+    { key: 'city', label: 'City' },
+    { key: 'county', label: 'County' },
+    { key: 'state', label: 'State / Region' },
+    { key: 'postcode', label: 'Postcode' },
+    { key: 'country', label: 'Country' }
+];
+
+type ManualAddressValues = { [field in ManualAddressField]: string };
+
+// House number first ("15 Smith St", "15-17 Smith St", "2/15 Smith St" with unit 2) or last ("Hauptstraße 5")
+const NUMBER_FIRST_PATTERN = /^(?:\d+[a-z]?\s*\/\s*)?(\d+[a-z]?(?:-\d+[a-z]?)?)\s+(\D.*)$/i;
+const NUMBER_LAST_PATTERN = /^(\D.*?)\s+(\d+[a-z]?)$/i;
+// Postal delivery lines have a box number, not a street number
+const POSTAL_BOX_PATTERN = /^(?:p\.?\s*o\.?\s*box|private bag|locked bag)\b/i;
+
+/**
+ * Split a typed street line into its number and name for the separate bound outputs.
+ * A line without a recognisable number is all street name.
+ */
+export function splitStreetLine(street: string): { streetNumber: string; streetName: string } {
+    const trimmed = street.trim();
+    if (POSTAL_BOX_PATTERN.test(trimmed)) {
+        return { streetNumber: '', streetName: trimmed };
+    }
+    const numberFirst = NUMBER_FIRST_PATTERN.exec(trimmed);
+    if (numberFirst) {
+        return { streetNumber: numberFirst[1], streetName: numberFirst[2] };
+    }
+    const numberLast = NUMBER_LAST_PATTERN.exec(trimmed);
+    if (numberLast) {
+        return { streetNumber: numberLast[2], streetName: numberLast[1] };
+    }
+    return { streetNumber: '', streetName: trimmed };
+}
+
+interface ManualAddressFormProps {
+    isOpen: boolean;
+    // Pre-fill values; the typed search text usually goes in street
+    initialValues: Partial<ParsedAddress>;
+    onSubmit: (address: ParsedAddress) => void;
+    onDismiss: () => void;
+}
+
+function toFormValues(address: Partial<ParsedAddress>): ManualAddressValues {
+    return {
+        unit: address.unit || '',
+        building: address.building || '',
+        street: address.street || '',
+        streetNumber: address.streetNumber || '',
+        streetName: address.streetName || '',
+        suburb: address.suburb || '',
+        city: address.city || '',
+        county: address.county || '',
+        state: address.state || '',
+        postcode: address.postcode || '',
+        country: address.country || ''
+    };
+}
+
+export const ManualAddressForm: React.FC<ManualAddressFormProps> = ({
+    isOpen,
+    initialValues,
+    onSubmit,
+    onDismiss
+}) => {
+    const [values, setValues] = React.useState<ManualAddressValues>(() => toFormValues(initialValues));
+
+    // Start from the latest values each time the form opens
+    React.useEffect(() => {
+        if (isOpen) {
+            setValues(toFormValues(initialValues));
+        }
+    }, [isOpen]);
+
+    const handleChange = (field: ManualAddressField, newValue?: string) => {
+        setValues(current => ({ ...current, [field]: newValue || '' }));
+    };
+
+    const handleSubmit = () => {
+        const trimmed = toFormValues({
+            unit: values.unit.trim(),
+            building: values.building.trim(),
+            street: values.street.trim(),
+            streetNumber: values.streetNumber.trim(),
+            streetName: values.streetName.trim(),
+            suburb: values.suburb.trim(),
+            city: values.city.trim(),
+            county: values.county.trim(),
+            state: values.state.trim(),
+            postcode: values.postcode.trim(),
+            country: values.country.trim()
+        });
+
+        // Fill whichever of the street line and its number and name was left empty from the other
+        if (!trimmed.streetNumber && !trimmed.streetName) {
+            Object.assign(trimmed, splitStreetLine(trimmed.street));
+        } else if (!trimmed.street) {
+            trimmed.street = [trimmed.streetNumber, trimmed.streetName].filter(part => part !== '').join(' ');
+        }
+
+        // Unverified: no place ID and no coordinates, so it is never mistaken for a provider result
+        onSubmit({
+            ...trimmed,
+            isManualEntry: true,
+            fullAddress: [trimmed.unit, trimmed.building, trimmed.street, trimmed.suburb, trimmed.city, trimmed.county, trimmed.state, trimmed.postcode, trimmed.country]
+                .filter(part => part !== '')
+                .join(', '),
+            latitude: undefined,
+            longitude: undefined,
+            googlePlaceId: ''
+        });
+    };
+
+    const canSubmit = FIELDS.some(field => values[field.key].trim() !== '');
+
+    const dialogContentProps = {
+        type: DialogType.normal,
+        title: 'Enter Address Manually',
+        showCloseButton: true
+    };
+
+    const modalProps = React.useMemo(() => ({
+        isBlocking: true
+    }), []);
+
+    return (
+        <Dialog
+            hidden={!isOpen}
+            onDismiss={onDismiss}
+            dialogContentProps={dialogContentProps}
+            modalProps={modalProps}
+            minWidth={400}
+            styles={{
+                main: {
+                    borderRadius: '8px'
+                }
+            }}
+        >
+            <Stack tokens={{ childrenGap: 8 }}>
+                <MessageBar messageBarType={MessageBarType.warning} isMultiline={true}>
+                    This address will be saved as unverified. It has no map location or place ID.
+                </MessageBar>
+                {FIELDS.map(field => (
+                    <TextField
+                        key={field.key}
+                        label={field.label}
+                        value={values[field.key]}
+                        onChange={(event, newValue) => handleChange(field.key, newValue)}
+                    />
+                ))}
+            </Stack>
+
+            <DialogFooter>
+                <PrimaryButton onClick={handleSubmit} disabled={!canSubmit} text="Save Address" iconProps={{ iconName: 'CheckMark' }} />
+                <DefaultButton onClick={onDismiss} text="Cancel" />
+            </DialogFooter>
+        </Dialog>
+    );
+};
@@ -2,7 +2,7 @@ import * as React from 'react';
 import { Callout, DirectionalHint } from '@fluentui/react/lib/Callout';
 import { getTheme, mergeStyleSets } from '@fluentui/react/lib/Styling';
 import { HoverCard } from './HoverCard';
-import { AddressItem, PlaceResult } from '../types/EntityDetailTypes';
+import { AddressItem, PlaceResult, GeocodingProviderConfig, PlaceDetailsFieldSet, AddressLocation, LocationRestriction } from '../types';
 
 const theme = getTheme();
 const { palette } = theme;
@@ -18,9 +18,13 @@ const styles = mergeStyleSets({
 interface PlaceDetailsCalloutProps {
     hoveredItem: AddressItem | null;
     calloutTarget: HTMLElement | null;
-    apiToken: string;
+    providerConfig: GeocodingProviderConfig;
+    detailsFieldSet?: PlaceDetailsFieldSet;
     onDismiss: () => void;
     onSelect: (placeDetails: PlaceResult) => void;
+    // Only for the record's own address, where the pin can be moved without changing the address
+    onUpdateLocation?: (location: AddressLocation) => void;
+    locationRestriction?: LocationRestriction;
     onMouseEnter?: () => void;
     onMouseLeave?: () => void;
     // Additional lookup data for when placeId is not available
@@ -38,13 +42,34 @@ interface PlaceDetailsCalloutProps {
 export const PlaceDetailsCallout: React.FC<PlaceDetailsCalloutProps> = ({
     hoveredItem,
     calloutTarget,
-    apiToken,
+    providerConfig,
+    detailsFieldSet,
     onDismiss,
     onSelect,
+    onUpdateLocation,
+    locationRestriction,
     onMouseEnter,
     onMouseLeave,
     initialAddressData
 }) => {
+    // Stable lookup values: HoverCard geocodes again whenever these objects change
+    const street = initialAddressData?.street;
+    const city = initialAddressData?.city;
+    const state = initialAddressData?.state;
+    const country = initialAddressData?.country;
+    const fullAddress = initialAddressData?.fullAddress;
+    const latitude = initialAddressData?.latitude;
+    const longitude = initialAddressData?.longitude;
+    const hasInitialAddress = Boolean(initialAddressData);
+
+    const addressComponents = React.useMemo(() => hasInitialAddress
+        ? { street, city, state, country, fullAddress }
+        : undefined, [hasInitialAddress, street, city, state, country, fullAddress]);
+
+    const coordinates = React.useMemo(() => latitude && longitude
+        ? { latitude, longitude }
+        : undefined, [latitude, longitude]);
+
     if (!hoveredItem || !calloutTarget) {
         return null;
     }
@@ -82,19 +107,13 @@ export const PlaceDetailsCallout: React.FC<PlaceDetailsCalloutProps> = ({
         >
             <HoverCard
                 placeId={hoveredItem.placeId}
-                apiKey={apiToken}
-                addressComponents={initialAddressData ? {
-                    street: initialAddressData.street,
-                    city: initialAddressData.city,
-                    state: initialAddressData.state,
-                    country: initialAddressData.country,
-                    fullAddress: initialAddressData.fullAddress
-                } : undefined}
-                coordinates={initialAddressData && initialAddressData.latitude && initialAddressData.longitude ? {
-                    latitude: initialAddressData.latitude,
-                    longitude: initialAddressData.longitude
-                } : undefined}
+                providerConfig={providerConfig}
+                fieldSet={detailsFieldSet}
+                addressComponents={addressComponents}
+                coordinates={coordinates}
                 onSelect={onSelect}
+                onUpdateLocation={onUpdateLocation}
+                locationRestriction={locationRestriction}
                 onClose={onDismiss}
             />
         </Callout>
@@ -1,12 +1,16 @@
 import * as React from 'react';
-import { PlaceResult, GooglePlacesUtils } from '../types';
+import { PlaceResult, GooglePlacesUtils, GeocodingProviderConfig, AddressLocation, LocationRestriction } from '../types';
 import { Stack, IStackTokens } from '@fluentui/react/lib/Stack';
 import { Text } from '@fluentui/react/lib/Text';
+import { Link } from '@fluentui/react/lib/Link';
 import { Icon } from '@fluentui/react/lib/Icon';
 import { Dialog, DialogType, DialogFooter } from '@fluentui/react/lib/Dialog';
 import { PrimaryButton, DefaultButton, IconButton } from '@fluentui/react/lib/Button';
 import { Pivot, PivotItem } from '@fluentui/react/lib/Pivot';
+import { Spinner, SpinnerSize } from '@fluentui/react/lib/Spinner';
 import { getTheme, mergeStyleSets } from '@fluentui/react/lib/Styling';
+import { getGeocodingProvider, getStaticMapUrl, loadInteractiveMap, reverseGeocode } from './Queries';
+import { isWithinRestriction } from '../providers/geometry';
 
 /// <reference types="google.maps" />
 
@@ -53,23 +57,82 @@ const headerStyles = mergeStyleSets({
 
 interface IPlaceDetailsDialogProps {
     placeDetails: PlaceResult;
+    providerConfig?: GeocodingProviderConfig;
     isOpen: boolean;
     onDismiss: () => void;
     onSelect?: (placeDetails: PlaceResult) => void;
+    // Writes only the coordinates, keeping the current address; passed for the record's own address.
+    // Without it, keeping the address selects the place with the picked coordinates
+    onUpdateLocation?: (location: AddressLocation) => void;
+    // Picked points outside the service area cannot be saved
+    locationRestriction?: LocationRestriction;
 }
 
 export const PlaceDetailsDialog: React.FC<IPlaceDetailsDialogProps> = ({
     placeDetails,
+    providerConfig,
     isOpen,
     onDismiss,
-    onSelect
+    onSelect,
+    onUpdateLocation,
+    locationRestriction
 }) => {
+    const supportsInteractiveMap = providerConfig ? getGeocodingProvider(providerConfig).supportsInteractiveMap : true;
+    const staticMapUrl = !supportsInteractiveMap && providerConfig
+        ? getStaticMapUrl(providerConfig, GooglePlacesUtils.getLatitude(placeDetails), GooglePlacesUtils.getLongitude(placeDetails), { width: DIALOG_MAP_WIDTH - 64, height: DIALOG_MAP_HEIGHT, zoom: 16 })
+        : '';
     const [streetViewLoaded, setStreetViewLoaded] = React.useState(false);
     const [selectedTab, setSelectedTab] = React.useState<string>('map');
     const dialogMapRef = React.useRef<HTMLDivElement>(null);
     const streetViewRef = React.useRef<HTMLDivElement>(null);
     const dialogMapInstanceRef = React.useRef<google.maps.Map | null>(null);
     const streetViewInstanceRef = React.useRef<google.maps.StreetViewPanorama | null>(null);
+    const markerRef = React.useRef<google.maps.Marker | null>(null);
+
+    // Edit mode: the user drags the pin or clicks the map, then chooses what to do with the new point
+    const [isEditingLocation, setIsEditingLocation] = React.useState(false);
+    const [pickedLocation, setPickedLocation] = React.useState<google.maps.LatLngLiteral | null>(null);
+    const [nearestPlace, setNearestPlace] = React.useState<PlaceResult | null>(null);
+    const [isFindingNearestPlace, setIsFindingNearestPlace] = React.useState(false);
+    const isEditingLocationRef = React.useRef(false);
+    const pickedLocationRef = React.useRef<google.maps.LatLngLiteral | null>(null);
+    const pickRequestRef = React.useRef(0);
+    const canAdjustLocation = supportsInteractiveMap && Boolean(providerConfig) && Boolean(onSelect || onUpdateLocation);
+    const isPickOutsideRestriction = Boolean(pickedLocation && locationRestriction &&
+        !isWithinRestriction(locationRestriction, pickedLocation.lat, pickedLocation.lng));
+
+    const handleLocationPicked = React.useCallback(async (location: google.maps.LatLngLiteral) => {
+        if (!providerConfig) {
+            return;
+        }
+
+        pickedLocationRef.current = location;
+        setPickedLocation(location);
+        setNearestPlace(null);
+
+        // Only the latest pick may update the nearest address
+        const requestId = ++pickRequestRef.current;
+
+        // Outside the service area nothing can be saved, so there is no need to look up an address
+        if (locationRestriction && !isWithinRestriction(locationRestriction, location.lat, location.lng)) {
+            setIsFindingNearestPlace(false);
+            return;
+        }
+
+        setIsFindingNearestPlace(true);
+        try {
+            const response = await reverseGeocode(providerConfig, location.lat, location.lng);
+            if (requestId === pickRequestRef.current) {
+                setNearestPlace(response.result);
+            }
+        } catch (error) {
+            // No address near this point - the coordinates can still be used on their own
+        } finally {
+            if (requestId === pickRequestRef.current) {
+                setIsFindingNearestPlace(false);
+            }
+        }
+    }, [providerConfig, locationRestriction]);
 
     // Initialize dialog map and street view based on selected tab
     const initDialogMap = React.useCallback(async () => {
@@ -84,11 +147,17 @@ export const PlaceDetailsDialog: React.FC<IPlaceDetailsDialogProps> = ({
             return;
         }
 
-        if (!window.google?.maps) {
+        if (!supportsInteractiveMap) {
             return;
         }
 
         try {
+            if (providerConfig) {
+                await loadInteractiveMap(providerConfig);
+            } else if (!window.google?.maps) {
+                return;
+            }
+
             if (selectedTab === 'map') {
                 // Wait for ref to become available with retry mechanism
                 let retryCount = 0;
@@ -117,12 +186,26 @@ export const PlaceDetailsDialog: React.FC<IPlaceDetailsDialogProps> = ({
                     const dialogMap = new google.maps.Map(dialogMapRef.current, mapOptions);
                     dialogMapInstanceRef.current = dialogMap;
 
-                    // Add marker
+                    // Add marker, keeping any point picked before the map was recreated
                     const marker = new google.maps.Marker({
-                        position: { lat, lng },
+                        position: pickedLocationRef.current || { lat, lng },
                         map: dialogMap,
                         title: placeDetails.name || placeDetails.formattedAddress,
-                        animation: google.maps.Animation.DROP
+                        animation: google.maps.Animation.DROP,
+                        draggable: isEditingLocationRef.current
+                    });
+                    markerRef.current = marker;
+
+                    marker.addListener('dragend', (event: google.maps.MapMouseEvent) => {
+                        if (event.latLng) {
+                            handleLocationPicked(event.latLng.toJSON());
+                        }
+                    });
+                    dialogMap.addListener('click', (event: google.maps.MapMouseEvent) => {
+                        if (isEditingLocationRef.current && event.latLng) {
+                            marker.setPosition(event.latLng);
+                            handleLocationPicked(event.latLng.toJSON());
+                        }
                     });
                 }
             }
@@ -167,7 +250,7 @@ export const PlaceDetailsDialog: React.FC<IPlaceDetailsDialogProps> = ({
         } catch (error) {
             // Error handled silently
         }
-    }, [placeDetails, isOpen, selectedTab]);
+    }, [placeDetails, isOpen, selectedTab, supportsInteractiveMap, providerConfig, handleLocationPicked]);
 
     // Initialize dialog map when dialog opens or tab changes
     React.useEffect(() => {
@@ -190,8 +273,23 @@ export const PlaceDetailsDialog: React.FC<IPlaceDetailsDialogProps> = ({
         }
     }, [isOpen, selectedTab, dialogMapRef.current, streetViewRef.current, initDialogMap]);
 
+    const resetLocationEdit = React.useCallback(() => {
+        pickRequestRef.current++;
+        isEditingLocationRef.current = false;
+        pickedLocationRef.current = null;
+        setIsEditingLocation(false);
+        setPickedLocation(null);
+        setNearestPlace(null);
+        setIsFindingNearestPlace(false);
+    }, []);
+
     const handleDismiss = React.useCallback(() => {
+        resetLocationEdit();
         // Clean up dialog maps when closing
+        if (markerRef.current) {
+            google.maps.event.clearInstanceListeners(markerRef.current);
+            markerRef.current = null;
+        }
         if (dialogMapInstanceRef.current) {
             google.maps.event.clearInstanceListeners(dialogMapInstanceRef.current);
             dialogMapInstanceRef.current = null;
@@ -202,7 +300,7 @@ export const PlaceDetailsDialog: React.FC<IPlaceDetailsDialogProps> = ({
         }
         setStreetViewLoaded(false);
         onDismiss();
-    }, [onDismiss]);
+    }, [onDismiss, resetLocationEdit]);
 
     const handleSelect = React.useCallback(() => {
         if (onSelect && placeDetails) {
@@ -211,6 +309,43 @@ export const PlaceDetailsDialog: React.FC<IPlaceDetailsDialogProps> = ({
         handleDismiss(); // Close dialog after selection
     }, [onSelect, placeDetails, handleDismiss]);
 
+    const handleToggleLocationEdit = React.useCallback(() => {
+        const isEditing = !isEditingLocationRef.current;
+
+        if (!isEditing) {
+            // Cancelling puts the pin back where it was
+            resetLocationEdit();
+            if (markerRef.current) {
+                markerRef.current.setPosition({ lat: GooglePlacesUtils.getLatitude(placeDetails), lng: GooglePlacesUtils.getLongitude(placeDetails) });
+            }
+        } else {
+            isEditingLocationRef.current = true;
+            setIsEditingLocation(true);
+        }
+
+        if (markerRef.current) {
+            markerRef.current.setDraggable(isEditing);
+        }
+    }, [placeDetails, resetLocationEdit]);
+
+    // Keep the address and move only the coordinates (e.g. rural properties geocoded to the wrong spot)
+    const handleKeepAddress = React.useCallback(() => {
+        if (onUpdateLocation && pickedLocation) {
+            onUpdateLocation({ latitude: pickedLocation.lat, longitude: pickedLocation.lng });
+        } else if (onSelect && pickedLocation) {
+            onSelect({ ...placeDetails, geometry: { ...placeDetails.geometry, location: pickedLocation } });
+        }
+        handleDismiss();
+    }, [onUpdateLocation, onSelect, placeDetails, pickedLocation, handleDismiss]);
+
+    // Replace the address with the nearest match, keeping the picked point as the coordinates
+    const handleUseNearestAddress = React.useCallback(() => {
+        if (onSelect && nearestPlace && pickedLocation) {
+            onSelect({ ...nearestPlace, geometry: { ...nearestPlace.geometry, location: pickedLocation } });
+        }
+        handleDismiss();
+    }, [onSelect, nearestPlace, pickedLocation, handleDismiss]);
+
     const handleTabChange = (item: any) => {
         if (item) {
             const newTab = item.props.itemKey || 'map';
@@ -274,31 +409,87 @@ export const PlaceDetailsDialog: React.FC<IPlaceDetailsDialogProps> = ({
                                     marginBottom: '16px',
                                     backgroundColor: '#f8f8f8'
                                 }}
-                            />
-                        </div>
-                    </PivotItem>
+                            >
+                                {staticMapUrl && (
+                                    <img
+                                        src={staticMapUrl}
+                                        alt={placeDetails.formattedAddress}
+                                        style={{ width: '100%', height: '100%', objectFit: 'cover', borderRadius: '4px' }}
+                                    />
+                                )}
+                            </div>
 
-                    <PivotItem headerText="Street View" itemKey="streetview" itemIcon="Camera">
-                        <div style={{ padding: '8px 0' }}>
-                            <div
-                                ref={streetViewRef}
-                                style={{
-                                    width: '100%',
-                                    height: `${STREETVIEW_HEIGHT}px`,
-                                    border: '1px solid #e1e1e1',
-                                    borderRadius: '4px',
-                                    marginBottom: '16px',
-                                    backgroundColor: '#f8f8f8'
-                                }}
-                            />
-                            {!streetViewLoaded && selectedTab === 'streetview' && (
-                                <Text variant="small" style={{ color: '#666', fontStyle: 'italic', textAlign: 'center', display: 'block' }}>
-                                    {!streetViewInstanceRef.current ? 'Loading Street View...' : 'Street View may not be available for this location'}
-                                </Text>
+                            {isEditingLocation && (
+                                <Stack tokens={{ childrenGap: 8 }}>
+                                    {!pickedLocation ? (
+                                        <Text variant="small" style={{ color: '#666', fontStyle: 'italic' }}>
+                                            Drag the pin or click the map to set the exact location
+                                        </Text>
+                                    ) : (
+                                        <>
+                                            <Text variant="small">
+                                                <Icon iconName="World" style={{ marginRight: '8px', color: '#0078d4' }} />
+                                                <strong>New coordinates:</strong> {pickedLocation.lat.toFixed(6)}, {pickedLocation.lng.toFixed(6)}
+                                            </Text>
+                                            {isPickOutsideRestriction ? (
+                                                <Text variant="small" style={{ color: palette.redDark }}>
+                                                    <Icon iconName="Warning" style={{ marginRight: '8px' }} />
+                                                    This point is outside the area addresses are restricted to - choose a point inside it
+                                                </Text>
+                                            ) : isFindingNearestPlace ? (
+                                                <Spinner size={SpinnerSize.small} labelPosition="right" label="Finding the nearest address..." styles={{ root: { justifyContent: 'flex-start' } }} />
+                                            ) : (
+                                                <Text variant="small">
+                                                    <Icon iconName="MapPin" style={{ marginRight: '8px', color: '#0078d4' }} />
+                                                    <strong>Nearest address:</strong> {nearestPlace ? GooglePlacesUtils.getFormattedAddress(nearestPlace) : 'No address found near this point'}
+                                                </Text>
+                                            )}
+                                            <Stack horizontal tokens={{ childrenGap: 8 }}>
+                                                <PrimaryButton
+                                                    onClick={handleKeepAddress}
+                                                    disabled={isPickOutsideRestriction}
+                                                    text={onUpdateLocation ? 'Update Coordinates Only' : 'Keep Address Here'}
+                                                    iconProps={{ iconName: 'World' }}
+                                                />
+                                                {onSelect && (
+                                                    <DefaultButton
+                                                        onClick={handleUseNearestAddress}
+                                                        disabled={!nearestPlace || isFindingNearestPlace || isPickOutsideRestriction}
+                                                        text="Use Nearest Address"
+                                                        iconProps={{ iconName: 'MapPin' }}
+                                                    />
+                                                )}
+                                            </Stack>
+                                        </>
+                                    )}
+                                </Stack>
                             )}
                         </div>
                     </PivotItem>
 
+                    {supportsInteractiveMap && (
+                        <PivotItem headerText="Street View" itemKey="streetview" itemIcon="Camera">
+                            <div style={{ padding: '8px 0' }}>
+                                <div
+                                    ref={streetViewRef}
+                                    style={{
+                                        width: '100%',
+                                        height: `${STREETVIEW_HEIGHT}px`,
+                                        border: '1px solid #e1e1e1',
+                                        borderRadius: '4px',
+                                        marginBottom: '16px',
+                                        backgroundColor: '#f8f8f8'
+                                    }}
+                                />
+                                {!streetViewLoaded && selectedTab === 'streetview' && (
+                                    <Text variant="small" style={{ color: '#666', fontStyle: 'italic', textAlign: 'center', display: 'block' }}>
+                                        {!streetViewInstanceRef.current ? 'Loading Street View...' : 'Street View may not be available for this location'}
+                                    </Text>
+                                )}
+                            </div>
+                        </PivotItem>
+                    )}
+
                     <PivotItem headerText="Details" itemKey="details" itemIcon="Info">
                         <div style={{ padding: '8px 0' }}>
                             <Stack tokens={{ childrenGap: 12 }}>
@@ -394,6 +585,73 @@ export const PlaceDetailsDialog: React.FC<IPlaceDetailsDialogProps> = ({
                                     </Stack>
                                 )}
 
+                                {/* Contact and Opening Hours */}
+                                {(placeDetails.phoneNumber || placeDetails.website || placeDetails.openingHours) && (
+                                    <Stack tokens={{ childrenGap: 6 }}>
+                                        <Text variant="mediumPlus" style={{ fontWeight: 600, color: '#323130' }}>
+                                            Contact
+                                        </Text>
+
+                                        {placeDetails.phoneNumber && (
+                                            <Text variant="small">
+                                                <Icon iconName="Phone" style={{ marginRight: '8px', color: '#0078d4' }} />
+                                                <strong>Phone:</strong> {placeDetails.phoneNumber}
+                                            </Text>
+                                        )}
+
+                                        {placeDetails.website && (
+                                            <Text variant="small">
+                                                <Icon iconName="Globe" style={{ marginRight: '8px', color: '#0078d4' }} />
+                                                <strong>Website:</strong>{' '}
+                                                <Link href={placeDetails.website} target="_blank" rel="noopener noreferrer">
+                                                    {placeDetails.website}
+                                                </Link>
+                                            </Text>
+                                        )}
+
+                                        {placeDetails.openingHours && placeDetails.openingHours.weekdayText.length > 0 && (
+                                            <Stack tokens={{ childrenGap: 2 }}>
+                                                <Text variant="small">
+                                                    <Icon iconName="Clock" style={{ marginRight: '8px', color: '#0078d4' }} />
+                                                    <strong>Opening hours:</strong>
+                                                </Text>
+                                                {placeDetails.openingHours.weekdayText.map((day, index) => (
+                                                    <Text key={index} variant="small" style={{ paddingLeft: '24px', color: '#605e5c' }}>
+                                                        {day}
+                                                    </Text>
+                                                ))}
+                                            </Stack>
+                                        )}
+                                    </Stack>
+                                )}
+
+                                {/* Photos */}
+                                {placeDetails.photos && placeDetails.photos.some(photo => photo.uri) && (
+                                    <Stack tokens={{ childrenGap: 6 }}>
+                                        <Text variant="mediumPlus" style={{ fontWeight: 600, color: '#323130' }}>
+                                            <Icon iconName="Photo2" style={{ marginRight: '8px', color: '#0078d4' }} />
+                                            Photos
+                                        </Text>
+                                        <div style={{ display: 'flex', gap: '8px' }}>
+                                            {placeDetails.photos.filter(photo => photo.uri).map((photo, index) => (
+                                                <Stack key={index} tokens={{ childrenGap: 2 }} style={{ flex: 1, minWidth: 0 }}>
+                                                    <img
+                                                        src={photo.uri}
+                                                        alt={placeDetails.name || placeDetails.formattedAddress}
+                                                        style={{ width: '100%', height: '120px', objectFit: 'cover', borderRadius: '4px' }}
+                                                    />
+                                                    {/* Google requires the photo author to be shown with the photo */}
+                                                    {photo.htmlAttributions.length > 0 && (
+                                                        <Text variant="xSmall" style={{ color: '#605e5c' }}>
+                                                            {photo.htmlAttributions.join(', ')}
+                                                        </Text>
+                                                    )}
+                                                </Stack>
+                                            ))}
+                                        </div>
+                                    </Stack>
+                                )}
+
                                 {/* Plus Codes */}
                                 {placeDetails.plusCode && (placeDetails.plusCode.globalCode || placeDetails.plusCode.compoundCode) && (
                                     <Stack tokens={{ childrenGap: 6 }}>
@@ -420,7 +678,14 @@ export const PlaceDetailsDialog: React.FC<IPlaceDetailsDialogProps> = ({
             </div>
 
             <DialogFooter>
-                <PrimaryButton onClick={handleSelect} text="Select" iconProps={{ iconName: 'CheckMark' }} />
+                <PrimaryButton onClick={handleSelect} disabled={isEditingLocation} text="Select" iconProps={{ iconName: 'CheckMark' }} />
+                {canAdjustLocation && selectedTab === 'map' && (
+                    <DefaultButton
+                        onClick={handleToggleLocationEdit}
+                        text={isEditingLocation ? 'Cancel Adjusting' : 'Adjust Location'}
+                        iconProps={{ iconName: isEditingLocation ? 'Cancel' : 'Edit' }}
+                    />
+                )}
                 {placeDetails.url && (
                     <DefaultButton
                         onClick={() => window.open(placeDetails.url, '_blank')}
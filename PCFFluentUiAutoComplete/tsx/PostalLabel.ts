@@ -0,0 +1,114 @@
+// Multi-line postal label for the postalLabel output, built from the parsed address
+// Each country layout is a list of line templates (see GooglePlacesUtils.renderTemplate); empty lines are dropped
+
+import { GooglePlacesUtils, ParsedAddress, PostalLabelFormat } from '../types';
+
+type LabelLayout = string[];
+
+// Line order recommended by the UPU when a country has no layout of its own
+const GENERIC_LAYOUT: LabelLayout = ['{building}', '[{UNIT}, ]{street}', '{suburb}', '{CITY} [{state} ]{postcode}'];
+
+// Postcode before the town, as in most of continental Europe
+const POSTCODE_FIRST_LAYOUT: LabelLayout = ['{building}', '{street}[, {unit}]', '{postcode} {city}'];
+
+const NORTH_AMERICA_LAYOUT: LabelLayout = ['{building}', '{street}[ {UNIT}]', '{city}[, {state}] {postcode}'];
+
+const LABEL_LAYOUTS: { [countryCode: string]: LabelLayout } = {
+    AU: ['{building}', '{street}', '{LOCALITY} {state} {postcode}'],
+    NZ: ['{building}', '{street}', '{suburb}', '{city} {postcode}'],
+    US: NORTH_AMERICA_LAYOUT,
+    CA: NORTH_AMERICA_LAYOUT,
+    // Royal Mail: flat and building above the street, post town in upper case, postcode on its own line
+    GB: ['{FLAT}', '{building}', '{street}', '{DEPENDENT_LOCALITY}', '{POST_TOWN}', '{postcode}'],
+    IE: ['{building}', '{street}', '{suburb}', '{city}', '{county}', '{postcode}'],
+    FR: ['{building}', '{street}[, {unit}]', '{suburb}', '{postcode} {CITY}'],
+    BR: ['{building}', '{street}[, {unit}]', '{suburb}', '{city}[ - {state}]', '{postcode}'],
+    IN: ['{building}', '{street}', '{suburb}', '{city} {postcode}', '{state}'],
+    AT: POSTCODE_FIRST_LAYOUT,
+    BE: POSTCODE_FIRST_LAYOUT,
+    CH: POSTCODE_FIRST_LAYOUT,
+    CZ: POSTCODE_FIRST_LAYOUT,
+    DE: POSTCODE_FIRST_LAYOUT,
+    DK: POSTCODE_FIRST_LAYOUT,
+    ES: POSTCODE_FIRST_LAYOUT,
+    FI: POSTCODE_FIRST_LAYOUT,
+    IT: POSTCODE_FIRST_LAYOUT,
+    NL: POSTCODE_FIRST_LAYOUT,
+    NO: POSTCODE_FIRST_LAYOUT,
+    PL: POSTCODE_FIRST_LAYOUT,
+    PT: POSTCODE_FIRST_LAYOUT,
+    SE: POSTCODE_FIRST_LAYOUT
+};
+
+// Manual entries only have the typed country, which may already be a code
+function getCountryCode(address: ParsedAddress): string {
+    if (address.countryCode) {
+        return address.countryCode.toUpperCase();
+    }
+    return /^[A-Za-z]{2}$/.test(address.country || '') ? (address.country || '').toUpperCase() : '';
+}
+
+// Unit for its own line or suffix; empty when the street template already rendered it (e.g. "2/15 Smith St")
+export function getSeparateUnit(address: ParsedAddress): string {
+    return address.streetIncludesUnit ? '' : (address.unit || '').trim();
+}
+
+// Building name only. Addresses from the record or manual entry have no premise, so a building that
+// repeats the unit (the subpremise fallback) or the street is left out
+export function getPremise(address: ParsedAddress): string {
+    const premise = (address.premise !== undefined ? address.premise : address.building || '').trim();
+    if (address.premise === undefined && premise === (address.unit || '').trim()) {
+        return '';
+    }
+    return premise !== (address.street || '').trim() ? premise : '';
+}
+
+// A bare unit ("4", "12B") gets the label; a unit with its own ("Flat 3", "Suite 200") is kept as it is
+export function formatUnit(unit: string, label: string): string {
+    return unit && !/[A-Za-z]{2,}/.test(unit) ? `${label} ${unit}` : unit;
+}
+
+/**
+ * Format the address as a postal label, one line per address line.
+ * Returns an empty string when every address line is empty.
+ */
+export function formatPostalLabel(address: ParsedAddress, format: PostalLabelFormat = 'international'): string {
+    const unit = getSeparateUnit(address);
+    const city = address.city || '';
+    const suburb = address.suburb && address.suburb !== city ? address.suburb : '';
+    const postTown = address.postTown || city;
+
+    const values: { [placeholder: string]: string } = {
+        building: getPremise(address),
+        unit,
+        UNIT: formatUnit(unit, 'Unit'),
+        FLAT: formatUnit(unit, 'Flat'),
+        street: address.street || '',
+        suburb,
+        city,
+        CITY: city.toUpperCase(),
+        POST_TOWN: postTown.toUpperCase(),
+        // A locality inside the post town, e.g. Didsbury in MANCHESTER
+        DEPENDENT_LOCALITY: city && city !== postTown ? city : suburb,
+        LOCALITY: (suburb || city).toUpperCase(),
+        county: address.county || '',
+        state: address.state || '',
+        postcode: address.postcode || ''
+    };
+
+    const layout = format === 'generic' ? GENERIC_LAYOUT : LABEL_LAYOUTS[getCountryCode(address)] || GENERIC_LAYOUT;
+    const lines = layout
+        .map(line => GooglePlacesUtils.renderTemplate(line, values))
+        .filter(line => line !== '');
+
+    if (lines.length === 0) {
+        return '';
+    }
+
+    // The destination country goes last and in upper case on international mail
+    if (format !== 'domestic' && address.country) {
+        lines.push(address.country.toUpperCase());
+    }
+
+    return lines.join('\n');
+}
@@ -1,205 +1,338 @@
-// Google Places API client-side functions using Google Maps JavaScript API
-// Based on the working implementation from CloseQuote.js
+// Geocoding query functions used by the UI components
+// The actual lookups are delegated to the configured provider (see ../providers)
 
-/// <reference types="google.maps" />
+import {
+    AddressValidationMode,
+    AddressValidationRequest,
+    AddressValidationResult,
+    AutocompleteSession,
+    GeocodingProvider,
+    GeocodingProviderConfig,
+    GooglePlacesAutocompleteResponse,
+    PlaceDetailsFieldSet,
+    PlaceDetailsRequest,
+    PlaceDetailsResponse,
+    PlacesError,
+    PlacesErrorCode,
+    StaticMapOptions,
+    SuggestionRequest
+} from '../types';
+import { GooglePlacesProvider } from '../providers/GoogleProvider';
+import { AzureMapsProvider } from '../providers/AzureMapsProvider';
+import { OpenStreetMapProvider } from '../providers/OpenStreetMapProvider';
+import { loadGoogleMaps } from '../providers/GoogleMapsLoader';
+import { validateLocally, validateWithGoogle } from '../providers/AddressValidation';
+import { QueryCache } from './QueryCache';
+import { CircuitBreaker } from './CircuitBreaker';
 
-import { GooglePlacesAutocompleteResponse, PlacePrediction, PlaceDetailsResponse } from '../types';
+// Provider instances are reused for the same configuration
+const providerInstances: { [key: string]: GeocodingProvider } = {};
 
-// Track if Google Maps API is loaded
-let isGoogleApiLoaded = false;
-let googleApiPromise: Promise<void> | null = null;
+// Cached lookups are shared across control instances
+const SUGGESTION_CACHE_TTL = 5 * 60 * 1000;
+const DETAILS_CACHE_TTL = 30 * 60 * 1000;
+const suggestionCache = new QueryCache<GooglePlacesAutocompleteResponse>('suggestions', 100, SUGGESTION_CACHE_TTL);
+const detailsCache = new QueryCache<{ fieldSet: PlaceDetailsFieldSet; response: PlaceDetailsResponse }>('details', 200, DETAILS_CACHE_TTL);
+const geocodeCache = new QueryCache<PlaceDetailsResponse>('geocode', 100, DETAILS_CACHE_TTL);
 
-// Declare global Google Maps types for TypeScript
-declare global {
-    interface Window {
-        google: typeof google;
-        initGoogleMapsForPCF: () => void;
+// Sessions whose suggestions have reached a per-session billing provider. Their suggestions always come from the
+// provider, because only a prediction the provider returned in the session can conclude it when selected
+const providerSessions: { [sessionId: string]: boolean } = {};
+
+// A cached details result can serve any request for the same or a cheaper field set
+const FIELD_SET_RANK: { [fieldSet in PlaceDetailsFieldSet]: number } = {
+    address: 0,
+    basic: 1,
+    contact: 2,
+    atmosphere: 3
+};
+
+// Transient failures are retried with jittered exponential backoff
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 250;
+const RETRYABLE_STATUSES = ['UNKNOWN_ERROR', 'OVER_QUERY_LIMIT', 'RESOURCE_EXHAUSTED', 'HTTP 429', 'HTTP 500', 'HTTP 502', 'HTTP 503', 'HTTP 504'];
+
+// Consecutive failed lookups that open the circuit, and how long lookups stay paused
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN = 60 * 1000;
+const circuitBreakers: { [scope: string]: CircuitBreaker } = {};
+
+// Only service failures count towards the circuit - bad queries and bad keys do not
+const CIRCUIT_ERROR_CODES: PlacesErrorCode[] = ['QUOTA_EXCEEDED', 'OFFLINE', 'SCRIPT_LOAD_FAILED', 'UNKNOWN'];
+
+function getCacheScope(config: GeocodingProviderConfig): string {
+    return `${config.provider}|${config.endpoint || ''}|${config.language || ''}|${config.region || ''}`;
+}
+
+function getCircuitBreaker(config: GeocodingProviderConfig): CircuitBreaker {
+    const scope = `${config.provider}|${config.endpoint || ''}`;
+    if (!circuitBreakers[scope]) {
+        circuitBreakers[scope] = new CircuitBreaker(CIRCUIT_FAILURE_THRESHOLD, CIRCUIT_COOLDOWN);
     }
+    return circuitBreakers[scope];
+}
+
+// Milliseconds until lookups resume for this provider (0 when lookups are available)
+function getProviderCooldown(config: GeocodingProviderConfig): number {
+    return getCircuitBreaker(config).getRemainingCooldown();
 }
 
-function loadGooglePlacesAPI(apiKey: string): Promise<void> {
-    // Check if already loaded (like in CloseQuote.js)
-    if (window.google && window.google.maps && window.google.maps.places) {
-        isGoogleApiLoaded = true;
-        return Promise.resolve();
+// Providers that cannot abort in flight (the Google JS API) are cancelled by discarding their response
+function throwIfAborted(signal?: AbortSignal): void {
+    if (signal && signal.aborted) {
+        throw new DOMException('The request was aborted', 'AbortError');
     }
+}
 
-    // Check if script is already being loaded
-    if (document.getElementById("google-maps-script-pcf")) {
-        return googleApiPromise || Promise.resolve();
+function isAbortError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+}
+
+// Provider status tokens mapped to the error categories shown in the UI, checked in order
+const ERROR_PATTERNS: { code: PlacesErrorCode; pattern: RegExp }[] = [
+    { code: 'ZERO_RESULTS', pattern: /ZERO_RESULTS/ },
+    { code: 'NOT_FOUND', pattern: /NOT_FOUND/ },
+    { code: 'INVALID_KEY', pattern: /REQUEST_DENIED|PERMISSION_DENIED|API key|ApiNotActivated|InvalidKey|HTTP 40[13]\b/i },
+    { code: 'QUOTA_EXCEEDED', pattern: /OVER_QUERY_LIMIT|OVER_DAILY_LIMIT|RESOURCE_EXHAUSTED|quota|HTTP 429\b/i },
+    { code: 'SCRIPT_LOAD_FAILED', pattern: /Failed to load Google Maps|not available after loading/i },
+    { code: 'OFFLINE', pattern: /Failed to fetch|NetworkError|Network request failed|Load failed/i }
+];
+
+const STATUS_PATTERN = /\b(?:ZERO_RESULTS|NOT_FOUND|INVALID_REQUEST|REQUEST_DENIED|PERMISSION_DENIED|OVER_QUERY_LIMIT|OVER_DAILY_LIMIT|RESOURCE_EXHAUSTED|UNKNOWN_ERROR|HTTP \d{3})\b/;
+
+// Normalise any provider, network or loader failure into a PlacesError
+function toPlacesError(error: unknown): PlacesError {
+    if (error instanceof PlacesError) {
+        return error;
     }
 
-    if (googleApiPromise) {
-        return googleApiPromise;
+    const message = error instanceof Error ? error.message : String(error);
+    const statusMatch = message.match(STATUS_PATTERN);
+    const status = statusMatch ? statusMatch[0] : '';
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        return new PlacesError('OFFLINE', status, message);
     }
 
-    googleApiPromise = new Promise((resolve, reject) => {
-        // Create callback function (following CloseQuote.js pattern)
-        const callbackName = 'initGoogleMapsForPCF';
+    const match = ERROR_PATTERNS.find(entry => entry.pattern.test(message));
+    return new PlacesError(match ? match.code : 'UNKNOWN', status, message);
+}
+
+function isRetryable(error: PlacesError): boolean {
+    return RETRYABLE_STATUSES.indexOf(error.status) !== -1;
+}
 
-        // Set up global callback
-        (window as any)[callbackName] = () => {
-            isGoogleApiLoaded = true;
-            delete (window as any)[callbackName];
-            resolve();
-        };
+// Full jitter: wait a random time up to the exponential ceiling, giving up early if aborted
+function waitForRetry(attempt: number, signal?: AbortSignal): Promise<void> {
+    const delay = Math.random() * RETRY_BASE_DELAY * Math.pow(2, attempt);
 
-        // Create script element (following CloseQuote.js pattern)
-        const script = document.createElement("script");
-        script.id = "google-maps-script-pcf";
-        script.async = true;
-        script.defer = true;
-        // Updated to include the new Places library with advanced markers support
-        script.src = `https://maps.googleapis.com/maps/api/js?key=${apiKey}&loading=async&libraries=places,marker&callback=${callbackName}`;
-
-        // Add error handling (like in CloseQuote.js)
-        script.onerror = function () {
-            delete (window as any)[callbackName];
-            reject(new Error('Failed to load Google Maps API'));
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('The request was aborted', 'AbortError'));
         };
+        const timer = window.setTimeout(() => {
+            if (signal) {
+                signal.removeEventListener('abort', onAbort);
+            }
+            resolve();
+        }, delay);
 
-        document.head.appendChild(script);
+        if (signal) {
+            signal.addEventListener('abort', onAbort, { once: true });
+        }
     });
-
-    return googleApiPromise;
 }
 
-async function fetchAddressSuggestions(query: string, apiKey: string, countryRestriction?: string, searchTypes?: string): Promise<GooglePlacesAutocompleteResponse> {
-    // Ensure Google Places API is loaded (following CloseQuote.js pattern)
-    await loadGooglePlacesAPI(apiKey);
+// Run a provider call through the circuit breaker, retrying transient failures
+// Failures are rethrown as PlacesError; aborts are passed through untouched
+async function runProviderCall<T>(config: GeocodingProviderConfig, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    // Never fall back to a public service the configuration did not name
+    const configurationError = getConfigurationError(config);
+    if (configurationError) {
+        throw configurationError;
+    }
+
+    const breaker = getCircuitBreaker(config);
 
-    if (!window.google?.maps?.places) {
-        throw new Error('Google Places API not available after loading');
+    if (breaker.isOpen()) {
+        throw new PlacesError(
+            'SERVICE_UNAVAILABLE',
+            '',
+            `Lookups paused for ${Math.ceil(breaker.getRemainingCooldown() / 1000)}s after repeated failures`
+        );
     }
 
-    return new Promise((resolve, reject) => {
-            const service = new google.maps.places.AutocompleteService();
-
-            const request: google.maps.places.AutocompletionRequest = {
-                input: query,
-                types: searchTypes ? searchTypes.split('|') as any : ['address']
-            };
-
-            // Add country restriction if provided
-            if (countryRestriction && countryRestriction.trim()) {
-                const countries = countryRestriction.split(',').map(c => c.trim().toLowerCase());
-                request.componentRestrictions = {
-                    country: countries
-                };
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const result = await call();
+            breaker.recordSuccess();
+            return result;
+        } catch (error) {
+            if (isAbortError(error)) {
+                throw error;
+            }
+
+            const placesError = toPlacesError(error);
+
+            if (attempt < MAX_RETRIES && isRetryable(placesError)) {
+                await waitForRetry(attempt, signal);
+                continue;
             }
 
-            service.getPlacePredictions(request, (predictions, status) => {
-                if (status === google.maps.places.PlacesServiceStatus.OK && predictions) {
-                    const response: GooglePlacesAutocompleteResponse = {
-                        predictions: predictions.map(prediction => ({
-                            description: prediction.description,
-                            matchedSubstrings: prediction.matched_substrings?.map(ms => ({
-                                length: ms.length,
-                                offset: ms.offset
-                            })) || [],
-                            placeId: prediction.place_id,
-                            reference: (prediction as any).reference || prediction.place_id,
-                            structuredFormatting: {
-                                mainText: prediction.structured_formatting?.main_text || '',
-                                mainTextMatchedSubstrings: prediction.structured_formatting?.main_text_matched_substrings?.map(ms => ({
-                                    length: ms.length,
-                                    offset: ms.offset
-                                })) || [],
-                                secondaryText: prediction.structured_formatting?.secondary_text || ''
-                            },
-                            terms: prediction.terms?.map(term => ({
-                                offset: term.offset,
-                                value: term.value
-                            })) || [],
-                            types: prediction.types || []
-                        })),
-                        status: status
-                    };
-
-                    resolve(response);
-                } else {
-                    const errorMsg = `Google Places API error: ${status}`;
-                    reject(new Error(errorMsg));
-                }
-            });
-        });
-}
-
-async function fetchPlaceDetails(placeId: string, apiKey: string): Promise<PlaceDetailsResponse> {
-    // Ensure Google Places API is loaded (following CloseQuote.js pattern)
-    await loadGooglePlacesAPI(apiKey);
-
-        if (!window.google?.maps?.places) {
-            throw new Error('Google Places API not available after loading');
+            if (CIRCUIT_ERROR_CODES.indexOf(placesError.code) !== -1) {
+                breaker.recordFailure();
+            }
+            throw placesError;
+        }
+    }
+}
+
+function isProviderConfigured(config: GeocodingProviderConfig): boolean {
+    return getConfigurationError(config) === null;
+}
+
+// Why lookups cannot run with this configuration, or null when they can
+function getConfigurationError(config: GeocodingProviderConfig): PlacesError | null {
+    const provider = getGeocodingProvider(config);
+    if (provider.requiresApiKey && !config.apiKey) {
+        return new PlacesError('INVALID_KEY', '', `No API key is configured for the ${config.provider} provider`);
+    }
+    if (provider.requiresEndpoint && !config.endpoint) {
+        return new PlacesError('NOT_CONFIGURED', '', `No provider endpoint is configured for the ${config.provider} provider`);
+    }
+    return null;
+}
+
+function getGeocodingProvider(config: GeocodingProviderConfig): GeocodingProvider {
+    const key = `${config.provider}|${config.endpoint || ''}|${config.apiKey}|${config.language || ''}|${config.region || ''}`;
+
+    if (!providerInstances[key]) {
+        switch (config.provider) {
+            case 'azure':
+                providerInstances[key] = new AzureMapsProvider(config.apiKey, config.endpoint, config.language);
+                break;
+            case 'nominatim':
+            case 'photon':
+                providerInstances[key] = new OpenStreetMapProvider(config.provider, config.endpoint, config.language);
+                break;
+            case 'google':
+            default:
+                providerInstances[key] = new GooglePlacesProvider(config.apiKey, { language: config.language, region: config.region });
+                break;
         }
+    }
+
+    return providerInstances[key];
+}
+
+async function fetchAddressSuggestions(config: GeocodingProviderConfig, request: SuggestionRequest): Promise<GooglePlacesAutocompleteResponse> {
+    const cacheMode = config.cacheMode || 'memory';
+    const bias = request.locationBias;
+    const cacheKey = [
+        getCacheScope(config),
+        request.input.trim().toLowerCase(),
+        (request.countryRestriction || '').trim().toLowerCase(),
+        (request.searchTypes || []).slice().sort().join(','),
+        // Round the bias centre to about 1 km so nearby positions share cache entries
+        bias ? `${bias.latitude.toFixed(2)},${bias.longitude.toFixed(2)},${bias.radius}` : '',
+        request.locationRestriction ? JSON.stringify(request.locationRestriction) : ''
+    ].join('|');
+
+    throwIfAborted(request.signal);
+
+    const provider = getGeocodingProvider(config);
+    const isProviderSession = Boolean(request.session && providerSessions[request.session.id]);
+    const cached = isProviderSession ? undefined : suggestionCache.get(cacheKey, cacheMode);
+    if (cached) {
+        return cached;
+    }
+
+    if (request.session && provider.billsPerSession) {
+        providerSessions[request.session.id] = true;
+    }
+
+    const response = await runProviderCall(config, () => provider.fetchSuggestions(request), request.signal);
+    // The response is still valid for the cache even if the caller no longer wants it
+    suggestionCache.set(cacheKey, response, cacheMode);
+    throwIfAborted(request.signal);
+    return response;
+}
+
+async function fetchPlaceDetails(config: GeocodingProviderConfig, request: PlaceDetailsRequest): Promise<PlaceDetailsResponse> {
+    const cacheMode = config.cacheMode || 'memory';
+    const fieldSet = request.fieldSet || 'basic';
+    const cacheKey = `${getCacheScope(config)}|${request.placeId}`;
+
+    if (request.session) {
+        delete providerSessions[request.session.id];
+    }
+
+    const cached = detailsCache.get(cacheKey, cacheMode);
+    if (cached && FIELD_SET_RANK[cached.fieldSet] >= FIELD_SET_RANK[fieldSet]) {
+        // No details call is made, so the session has to be closed here instead
+        if (request.session) {
+            closeAutocompleteSession(config, request.session);
+        }
+        return cached.response;
+    }
+
+    const response = await runProviderCall(config, () => getGeocodingProvider(config).fetchDetails({ ...request, fieldSet }));
+    detailsCache.set(cacheKey, { fieldSet, response }, cacheMode);
+    return response;
+}
+
+async function runCachedGeocode(config: GeocodingProviderConfig, cacheKey: string, call: () => Promise<PlaceDetailsResponse>): Promise<PlaceDetailsResponse> {
+    const cacheMode = config.cacheMode || 'memory';
+    const cached = geocodeCache.get(cacheKey, cacheMode);
+    if (cached) {
+        return cached;
+    }
+
+    const response = await runProviderCall(config, call);
+    geocodeCache.set(cacheKey, response, cacheMode);
+    return response;
+}
+
+async function geocodeAddress(config: GeocodingProviderConfig, address: string): Promise<PlaceDetailsResponse> {
+    const cacheKey = `${getCacheScope(config)}|address|${address.trim().toLowerCase()}`;
+    return runCachedGeocode(config, cacheKey, () => getGeocodingProvider(config).geocode(address));
+}
+
+async function reverseGeocode(config: GeocodingProviderConfig, latitude: number, longitude: number): Promise<PlaceDetailsResponse> {
+    // Rounded to about 1 m so the same pin shares an entry
+    const cacheKey = `${getCacheScope(config)}|reverse|${latitude.toFixed(5)},${longitude.toFixed(5)}`;
+    return runCachedGeocode(config, cacheKey, () => getGeocodingProvider(config).reverseGeocode(latitude, longitude));
+}
+
+// Google validation needs a Google key; other providers fall back to the local completeness checks
+async function validateAddress(config: GeocodingProviderConfig, mode: AddressValidationMode, request: AddressValidationRequest): Promise<AddressValidationResult> {
+    if (mode === 'google' && config.provider === 'google' && config.apiKey) {
+        return runProviderCall(config, () => validateWithGoogle(config.apiKey, request));
+    }
+
+    return validateLocally(request);
+}
+
+function createAutocompleteSession(): AutocompleteSession {
+    return {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`,
+        startedAt: Date.now()
+    };
+}
+
+function closeAutocompleteSession(config: GeocodingProviderConfig, session: AutocompleteSession): void {
+    delete providerSessions[session.id];
+    getGeocodingProvider(config).closeSession(session);
+}
+
+// Interactive maps use the Google Maps JavaScript API through the shared loader
+async function loadInteractiveMap(config: GeocodingProviderConfig): Promise<void> {
+    await loadGoogleMaps({ apiKey: config.apiKey, libraries: ['marker'], language: config.language, region: config.region });
+}
+
+function getStaticMapUrl(config: GeocodingProviderConfig, latitude: number, longitude: number, options: StaticMapOptions): string {
+    return getGeocodingProvider(config).getStaticMapUrl(latitude, longitude, options);
+}
 
-        return new Promise((resolve, reject) => {
-            // Create a temporary div for the PlacesService (required by Google API)
-            const tempDiv = document.createElement('div');
-            const service = new google.maps.places.PlacesService(tempDiv);
-
-            const request: google.maps.places.PlaceDetailsRequest = {
-                placeId: placeId,
-                fields: [
-                    'formatted_address',
-                    'geometry',
-                    'name',
-                    'rating',
-                    'user_ratings_total',
-                    'website',
-                    'formatted_phone_number',
-                    'opening_hours',
-                    'photos',
-                    'address_components',
-                    'types',
-                    'url'
-                ]
-            };
-
-            service.getDetails(request, (place, status) => {
-
-                if (status === google.maps.places.PlacesServiceStatus.OK && place) {
-                    const response: PlaceDetailsResponse = {
-                        result: {
-                            addressComponents: place.address_components?.map(component => ({
-                                longName: component.long_name,
-                                shortName: component.short_name,
-                                types: component.types
-                            })),
-                            formattedAddress: place.formatted_address || '',
-                            geometry: {
-                                location: {
-                                    lat: place.geometry?.location?.lat() || 0,
-                                    lng: place.geometry?.location?.lng() || 0
-                                },
-                                viewport: place.geometry?.viewport ? {
-                                    northeast: {
-                                        lat: place.geometry.viewport.getNorthEast().lat(),
-                                        lng: place.geometry.viewport.getNorthEast().lng()
-                                    },
-                                    southwest: {
-                                        lat: place.geometry.viewport.getSouthWest().lat(),
-                                        lng: place.geometry.viewport.getSouthWest().lng()
-                                    }
-                                } : undefined
-                            },
-                            name: place.name,
-                            placeId: place.place_id || placeId,
-                            rating: place.rating,
-                            types: place.types || [],
-                            url: place.url,
-                            userRatingsTotal: place.user_ratings_total
-                        },
-                        status: status
-                    };
-
-                    resolve(response);
-                } else {
-                    const errorMsg = `Google Places API error: ${status}`;
-                    reject(new Error(errorMsg));
-                }
-            });
-        });
-}
-
-export { fetchAddressSuggestions, fetchPlaceDetails };
\ No newline at end of file
+export { getGeocodingProvider, isProviderConfigured, getConfigurationError, isAbortError, toPlacesError, getProviderCooldown, fetchAddressSuggestions, fetchPlaceDetails, geocodeAddress, reverseGeocode, validateAddress, getStaticMapUrl, loadInteractiveMap, createAutocompleteSession, closeAutocompleteSession };
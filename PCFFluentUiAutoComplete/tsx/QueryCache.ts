@@ -0,0 +1,101 @@
+// LRU cache for suggestion, place details and geocoding lookups, shared by every control instance on the page
+// Entries live in memory and can optionally be persisted to sessionStorage for the browser session
+
+import { QueryCacheMode } from '../types';
+
+const STORAGE_PREFIX = 'pcf-places-cache:';
+
+interface CacheEntry<T> {
+    value: T;
+    expires: number;
+}
+
+export class QueryCache<T> {
+    private _entries: Map<string, CacheEntry<T>> = new Map();
+    private _name: string;
+    private _maxEntries: number;
+    private _ttl: number;
+
+    constructor(name: string, maxEntries: number, ttl: number) {
+        this._name = name;
+        this._maxEntries = maxEntries;
+        this._ttl = ttl;
+    }
+
+    private storageKey(key: string): string {
+        return `${STORAGE_PREFIX}${this._name}:${key}`;
+    }
+
+    private readStorage(key: string): CacheEntry<T> | undefined {
+        try {
+            const raw = window.sessionStorage.getItem(this.storageKey(key));
+            return raw ? JSON.parse(raw) as CacheEntry<T> : undefined;
+        } catch (error) {
+            // sessionStorage can be unavailable (privacy mode, sandboxed frames)
+            return undefined;
+        }
+    }
+
+    private writeStorage(key: string, entry: CacheEntry<T>): void {
+        try {
+            window.sessionStorage.setItem(this.storageKey(key), JSON.stringify(entry));
+        } catch (error) {
+            // Quota exceeded or storage unavailable - the memory tier still works
+        }
+    }
+
+    private removeStorage(key: string): void {
+        try {
+            window.sessionStorage.removeItem(this.storageKey(key));
+        } catch (error) {
+            // Storage unavailable - nothing to remove
+        }
+    }
+
+    public get(key: string, mode: QueryCacheMode): T | undefined {
+        if (mode === 'none') {
+            return undefined;
+        }
+
+        let entry = this._entries.get(key);
+        if (!entry && mode === 'session') {
+            entry = this.readStorage(key);
+        }
+
+        if (!entry) {
+            return undefined;
+        }
+
+        if (entry.expires <= Date.now()) {
+            this._entries.delete(key);
+            this.removeStorage(key);
+            return undefined;
+        }
+
+        // Re-insert to mark the entry as most recently used
+        this._entries.delete(key);
+        this._entries.set(key, entry);
+        return entry.value;
+    }
+
+    public set(key: string, value: T, mode: QueryCacheMode): void {
+        if (mode === 'none') {
+            return;
+        }
+
+        const entry: CacheEntry<T> = { value, expires: Date.now() + this._ttl };
+
+        this._entries.delete(key);
+        this._entries.set(key, entry);
+
+        // Evict the least recently used entries (Map keeps insertion order)
+        while (this._entries.size > this._maxEntries) {
+            const oldestKey = this._entries.keys().next().value as string;
+            this._entries.delete(oldestKey);
+        }
+
+        if (mode === 'session') {
+            this.writeStorage(key, entry);
+        }
+    }
+}
@@ -0,0 +1,81 @@
+// Search type options offered in SettingsCallout and their mapping to Google type collections
+// The user's choice is remembered per user in localStorage so it survives between sessions
+
+export type SearchTypeOption = 'address' | 'establishment' | 'geocode' | 'cities' | 'regions';
+
+export const SEARCH_TYPE_OPTIONS: SearchTypeOption[] = ['address', 'establishment', 'geocode', 'cities', 'regions'];
+
+// Google type collections; (cities) and (regions) are the parenthesised collection names
+const SEARCH_TYPE_COLLECTIONS: { [option in SearchTypeOption]: string } = {
+    address: 'address',
+    establishment: 'establishment',
+    geocode: 'geocode',
+    cities: '(cities)',
+    regions: '(regions)'
+};
+
+// Google rejects (cities) and (regions) combined with any other type
+const EXCLUSIVE_OPTIONS: SearchTypeOption[] = ['cities', 'regions'];
+
+const STORAGE_PREFIX = 'pcf-places-search-types:';
+
+function isSearchTypeOption(value: string): value is SearchTypeOption {
+    return SEARCH_TYPE_OPTIONS.indexOf(value as SearchTypeOption) !== -1;
+}
+
+function isExclusive(option: SearchTypeOption): boolean {
+    return EXCLUSIVE_OPTIONS.indexOf(option) !== -1;
+}
+
+/**
+ * Apply Google's combination rules to a selection. The most recently added option wins:
+ * picking Cities or Regions clears everything else, picking anything else clears Cities/Regions.
+ */
+export function applySearchTypeRules(selected: SearchTypeOption[], added?: SearchTypeOption): SearchTypeOption[] {
+    if (added && isExclusive(added)) {
+        return [added];
+    }
+
+    const unique = selected.filter((option, index) => selected.indexOf(option) === index);
+    const combinable = unique.filter(option => !isExclusive(option));
+    if (combinable.length > 0) {
+        return combinable;
+    }
+
+    // Only Cities and/or Regions left - keep the last one
+    return unique.length > 0 ? [unique[unique.length - 1]] : [];
+}
+
+// Parse a comma separated list (manifest default or stored value), dropping unknown options
+export function parseSearchTypes(value?: string | null): SearchTypeOption[] {
+    if (!value) {
+        return [];
+    }
+
+    const options = value.split(',')
+        .map(part => part.trim().toLowerCase())
+        .filter(isSearchTypeOption);
+    return applySearchTypeRules(options);
+}
+
+export function toProviderSearchTypes(options: SearchTypeOption[]): string[] {
+    return options.map(option => SEARCH_TYPE_COLLECTIONS[option]);
+}
+
+export function loadSearchTypes(userKey: string): SearchTypeOption[] | undefined {
+    try {
+        const stored = window.localStorage.getItem(`${STORAGE_PREFIX}${userKey}`);
+        return stored !== null ? parseSearchTypes(stored) : undefined;
+    } catch (error) {
+        // localStorage can be unavailable (privacy mode, sandboxed frames)
+        return undefined;
+    }
+}
+
+export function saveSearchTypes(userKey: string, options: SearchTypeOption[]): void {
+    try {
+        window.localStorage.setItem(`${STORAGE_PREFIX}${userKey}`, options.join(','));
+    } catch (error) {
+        // Storage unavailable - the choice only lasts for this session
+    }
+}
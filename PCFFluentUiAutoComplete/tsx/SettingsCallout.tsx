@@ -7,6 +7,9 @@ import { Toggle } from '@fluentui/react/lib/Toggle';
 import { Dropdown, IDropdownOption } from '@fluentui/react/lib/Dropdown';
 import { Text } from '@fluentui/react/lib/Text';
 import { getTheme, mergeStyleSets } from '@fluentui/react/lib/Styling';
+import { LocationRestriction } from '../types';
+import { describeLocationRestriction } from '../providers/geometry';
+import { SearchTypeOption, applySearchTypeRules } from './SearchTypes';
 
 const theme = getTheme();
 const { palette, fonts } = theme;
@@ -72,8 +75,11 @@ interface SettingsCalloutProps {
     countryRestriction?: string;
     countryRestrictionEnabled: boolean;
     onCountryRestrictionChange: (enabled: boolean) => void;
-    searchTypes?: string[];
-    onSearchTypesChange?: (types: string[]) => void;
+    locationRestriction?: LocationRestriction;
+    searchTypes?: SearchTypeOption[];
+    // Types used when nothing is selected (manifest default)
+    defaultSearchTypes?: SearchTypeOption[];
+    onSearchTypesChange?: (types: SearchTypeOption[]) => void;
 }
 
 export const SettingsCallout: React.FC<SettingsCalloutProps> = ({
@@ -83,7 +89,9 @@ export const SettingsCallout: React.FC<SettingsCalloutProps> = ({
     countryRestriction,
     countryRestrictionEnabled,
     onCountryRestrictionChange,
+    locationRestriction,
     searchTypes = [],
+    defaultSearchTypes = ['address'],
     onSearchTypesChange
 }) => {
     // Define search type options
@@ -91,19 +99,26 @@ export const SettingsCallout: React.FC<SettingsCalloutProps> = ({
         { key: 'address', text: 'Addresses', data: { description: 'Street addresses and building numbers' } },
         { key: 'establishment', text: 'Establishments', data: { description: 'Businesses and points of interest' } },
         { key: 'geocode', text: 'Geocoding', data: { description: 'Geographic locations and areas' } },
-        { key: 'cities', text: 'Cities', data: { description: 'Cities and administrative areas' } },
-        { key: 'regions', text: 'Regions', data: { description: 'States, provinces, and regions' } }
+        { key: 'cities', text: 'Cities', data: { description: 'Cities and administrative areas (cannot be combined)' } },
+        { key: 'regions', text: 'Regions', data: { description: 'States, provinces, and regions (cannot be combined)' } }
     ];
 
     const handleSearchTypeChange = (event: React.FormEvent<HTMLDivElement>, item?: IDropdownOption) => {
         if (item && onSearchTypesChange) {
+            const key = item.key as SearchTypeOption;
+            // Cities and Regions cannot be combined with other types, so they replace the selection
             const selectedTypes = item.selected
-                ? [...searchTypes, item.key as string]
-                : searchTypes.filter(type => type !== item.key);
+                ? applySearchTypeRules([...searchTypes, key], key)
+                : applySearchTypeRules(searchTypes.filter(type => type !== key));
             onSearchTypesChange(selectedTypes);
         }
     };
 
+    const defaultSearchTypesText = searchTypeOptions
+        .filter(option => defaultSearchTypes.indexOf(option.key as SearchTypeOption) !== -1)
+        .map(option => option.text)
+        .join(', ');
+
     if (!isVisible || !target) {
         return null;
     }
@@ -177,6 +192,34 @@ export const SettingsCallout: React.FC<SettingsCalloutProps> = ({
                         </Stack>
                     )}
 
+                    {/* Location Restriction Section - configured on the form, so it cannot be turned off here */}
+                    {locationRestriction && (
+                        <Stack tokens={{ childrenGap: 8 }}>
+                            <Label className={styles.sectionLabel}>Service Area</Label>
+                            <Text className={styles.description}>
+                                Only addresses inside the configured service area are shown.
+                            </Text>
+                            <Toggle
+                                checked={true}
+                                disabled={true}
+                                inlineLabel
+                                onText="Restricted to service area"
+                                styles={{
+                                    root: { marginBottom: 0 },
+                                    label: { fontSize: fonts.small.fontSize },
+                                    text: { fontSize: fonts.small.fontSize }
+                                }}
+                            />
+                            <Text style={{
+                                fontSize: fonts.xSmall.fontSize,
+                                color: palette.neutralSecondary,
+                                fontStyle: 'italic'
+                            }}>
+                                {describeLocationRestriction(locationRestriction)}
+                            </Text>
+                        </Stack>
+                    )}
+
                     {/* Search Types Section */}
                     <Stack tokens={{ childrenGap: 8 }}>
                         <Label className={styles.sectionLabel}>Search Types</Label>
@@ -201,7 +244,7 @@ export const SettingsCallout: React.FC<SettingsCalloutProps> = ({
                                 color: palette.neutralSecondary,
                                 fontStyle: 'italic'
                             }}>
-                                Default: All types included
+                                {`Default: ${defaultSearchTypesText}`}
                             </Text>
                         )}
                     </Stack>
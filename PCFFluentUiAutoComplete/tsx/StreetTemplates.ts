@@ -0,0 +1,82 @@
+// Parse and validate the streetTemplate manifest property
+// Either one template for every country ("{street} {number}") or a JSON object keyed by country code:
+// {"NZ": "[{unit}/]{number} {street}", "*": "{number} {street}"}
+
+import { StreetTemplates } from '../types';
+
+const PLACEHOLDERS = ['unit', 'number', 'street'];
+const COUNTRY_CODE_PATTERN = /^[A-Za-z]{2}$/;
+
+export interface StreetTemplatesParseResult {
+    templates?: StreetTemplates;
+    // Problems found in the configuration; the built-in templates are used when there are any
+    errors: string[];
+}
+
+function validateTemplate(template: unknown, path: string, errors: string[]): template is string {
+    if (typeof template !== 'string' || !template.trim()) {
+        errors.push(`${path} must be a non-empty template such as "{street} {number}"`);
+        return false;
+    }
+
+    const errorCount = errors.length;
+    (template.match(/\{[^}]*\}/g) || [])
+        .filter(token => PLACEHOLDERS.indexOf(token.slice(1, -1)) === -1)
+        .forEach(token => errors.push(`${path} has unknown placeholder ${token} - expected {unit}, {number} or {street}`));
+
+    if (template.indexOf('{street}') === -1) {
+        errors.push(`${path} must include {street}`);
+    }
+
+    // Optional parts cannot be nested or left open
+    if (!/^[^[\]]*(\[[^[\]]*\][^[\]]*)*$/.test(template)) {
+        errors.push(`${path} has unbalanced or nested [ ] optional parts`);
+    }
+
+    return errors.length === errorCount;
+}
+
+/**
+ * Parse the street line override into templates keyed by upper case country code ('*' for all others).
+ */
+export function parseStreetTemplates(value?: string | null): StreetTemplatesParseResult {
+    const trimmed = (value || '').trim();
+    if (!trimmed) {
+        return { errors: [] };
+    }
+
+    const errors: string[] = [];
+
+    // Templates also start with "{", so only text that looks like a JSON object is parsed as one
+    if (!/^\{\s*"/.test(trimmed)) {
+        return validateTemplate(trimmed, 'Template', errors) ? { templates: { '*': trimmed }, errors } : { errors };
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(trimmed);
+    } catch (error) {
+        return { errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+
+    if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+        return { errors: ['Must be a template or a JSON object keyed by country code, e.g. {"DE": "{street} {number}"}'] };
+    }
+
+    const config = json as { [key: string]: unknown };
+    const templates: StreetTemplates = {};
+
+    Object.keys(config).forEach(key => {
+        if (key !== '*' && !COUNTRY_CODE_PATTERN.test(key)) {
+            errors.push(`"${key}" is not a two-letter country code or "*"`);
+            return;
+        }
+
+        const template = config[key];
+        if (validateTemplate(template, key, errors)) {
+            templates[key.toUpperCase()] = template.trim();
+        }
+    });
+
+    return errors.length > 0 ? { errors } : { templates, errors };
+}
@@ -8,11 +8,32 @@ export interface ParsedAddress {
     city?: string;
     state?: string;
     country?: string;
+    // ISO 3166-1 alpha-2 code, whatever the country name setting; picks the country's postal conventions
+    countryCode?: string;
     latitude?: number;
     longitude?: number;
     building?: string;
     postcode?: string;
     googlePlaceId?: string;
+    // Finer-grained components for schemas that store them separately
+    unit?: string;
+    streetNumber?: string;
+    streetName?: string;
+    county?: string;
+    plusCode?: string;
+    // Comma separated place types (e.g. "street_address,premise")
+    placeTypes?: string;
+    // Minutes from UTC at the place; only returned with the basic field set or richer
+    utcOffset?: number;
+    // Layout hints for the postal label and Dynamics 365 lines, not bound outputs
+    // True when the street template rendered the unit (e.g. "2/15 Smith St"), so it is not repeated
+    streetIncludesUnit?: boolean;
+    // Building name only; building falls back to the subpremise, which is the unit
+    premise?: string;
+    // UK post town (postal_town), which Google can return without a locality
+    postTown?: string;
+    // Entered in the manual form or accepted as typed; stored as the "manual" validation verdict
+    isManualEntry?: boolean;
 }
 
 export interface AddressComponent {
@@ -41,10 +62,16 @@ export interface Geometry {
 export interface PlacePhoto {
     height: number;
     htmlAttributions: string[];
-    photoReference: string;
+    // Legacy Places API reference; new Places API photos carry a ready-to-use uri instead
+    photoReference?: string;
+    uri?: string;
     width: number;
 }
 
+export interface OpeningHours {
+    weekdayText: string[];
+}
+
 export interface PlusCode {
     compoundCode?: string;
     globalCode: string;
@@ -60,6 +87,8 @@ export interface PlaceResult {
     iconBackgroundColor?: string;
     iconMaskBaseUri?: string;
     name?: string;
+    openingHours?: OpeningHours;
+    phoneNumber?: string;
     photos?: PlacePhoto[];
     placeId: string;
     plusCode?: PlusCode;
@@ -70,6 +99,7 @@ export interface PlaceResult {
     userRatingsTotal?: number;
     utcOffset?: number;
     vicinity?: string;
+    website?: string;
 }
 
 export interface GooglePlacesAutocompleteResponse {
@@ -108,6 +138,239 @@ export interface PlaceDetailsResponse {
     status: string;
 }
 
+// Geocoding provider abstraction - every backend maps its results into the
+// Google-shaped responses above so the UI and GooglePlacesUtils stay unchanged
+export type GeocodingProviderName = 'google' | 'azure' | 'nominatim' | 'photon';
+
+// none: always query the provider, memory: in-memory LRU cache, session: memory plus sessionStorage
+export type QueryCacheMode = 'none' | 'memory' | 'session';
+
+// BCP 47 language tag (e.g. fr-CA) and CLDR region code (e.g. NZ) for localised results
+export interface ProviderLocale {
+    language?: string;
+    region?: string;
+}
+
+export interface GeocodingProviderConfig extends ProviderLocale {
+    provider: GeocodingProviderName;
+    apiKey: string;
+    endpoint?: string;
+    cacheMode?: QueryCacheMode;
+}
+
+// Groups the keystroke queries and the final details lookup into one billable session
+export interface AutocompleteSession {
+    readonly id: string;
+    readonly startedAt: number;
+}
+
+// none: no bias, browser: the user's geolocation, record: the record's coordinates, configured: the manifest centre
+export type LocationBiasMode = 'none' | 'browser' | 'record' | 'configured';
+
+// Circle around a point, radius in metres
+export interface LocationCircle {
+    latitude: number;
+    longitude: number;
+    radius: number;
+}
+
+// Rectangle in decimal degrees
+export interface LocationBounds {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+}
+
+// Hard limit on where results may be; circles also carry their enclosing bounds for providers that only take rectangles
+export interface LocationRestriction {
+    bounds: LocationBounds;
+    circle?: LocationCircle;
+}
+
+export interface SuggestionRequest {
+    input: string;
+    countryRestriction?: string;
+    searchTypes?: string[];
+    // Prefer results near this area without excluding results elsewhere
+    locationBias?: LocationCircle;
+    // Only return results inside this area (takes precedence over the bias)
+    locationRestriction?: LocationRestriction;
+    session?: AutocompleteSession;
+    // Aborting the signal cancels the request; the returned promise rejects with an AbortError
+    signal?: AbortSignal;
+}
+
+// Cumulative field sets for details requests, cheapest first
+// address: components and location only, basic: + name/links, contact: + phone/website/hours, atmosphere: + ratings/photos
+export type PlaceDetailsFieldSet = 'address' | 'basic' | 'contact' | 'atmosphere';
+
+export interface PlaceDetailsRequest {
+    placeId: string;
+    fieldSet?: PlaceDetailsFieldSet;
+    // Passing the session concludes it; the session cannot be reused afterwards
+    session?: AutocompleteSession;
+}
+
+export interface StaticMapOptions {
+    width: number;
+    height: number;
+    zoom?: number;
+}
+
+// none: no validation, google: Google Address Validation API, local: completeness checks without a service call
+export type AddressValidationMode = 'none' | 'google' | 'local';
+
+// confirmed: every component was confirmed, inferred: some were added or corrected, unconfirmed: missing or doubtful components
+export type AddressValidationVerdict = 'confirmed' | 'inferred' | 'unconfirmed';
+
+// domestic: the country's own layout, international: the same with the country name as the last line,
+// generic: one UPU-style layout for every country, with the country name
+export type PostalLabelFormat = 'domestic' | 'international' | 'generic';
+
+// standard: the individual address outputs only, d365: also Dynamics 365 style line1-line3 and UTC offset outputs
+export type AddressOutputProfile = 'standard' | 'd365';
+
+export interface AddressValidationRequest {
+    place: PlaceResult;
+    // Text the user typed or selected, used to spot components the provider dropped (e.g. a unit number)
+    query?: string;
+}
+
+// Component lists use Google address component types (subpremise, street_number, route, ...)
+export interface AddressValidationResult {
+    verdict: AddressValidationVerdict;
+    missingComponents: string[];
+    unconfirmedComponents: string[];
+    inferredComponents: string[];
+}
+
+export interface GeocodingProvider {
+    readonly name: GeocodingProviderName;
+    // Interactive Google Maps (map, marker, street view) can only be shown for Google results
+    readonly supportsInteractiveMap: boolean;
+    readonly attribution: string;
+    readonly requiresApiKey: boolean;
+    // Providers without a usable public service need providerEndpoint
+    readonly requiresEndpoint: boolean;
+    // Suggestion requests are billed as one session only when a details call made with the session concludes it
+    readonly billsPerSession: boolean;
+    fetchSuggestions(request: SuggestionRequest): Promise<GooglePlacesAutocompleteResponse>;
+    fetchDetails(request: PlaceDetailsRequest): Promise<PlaceDetailsResponse>;
+    geocode(address: string): Promise<PlaceDetailsResponse>;
+    reverseGeocode(latitude: number, longitude: number): Promise<PlaceDetailsResponse>;
+    // Returns an empty string when the provider has no static map service
+    getStaticMapUrl(latitude: number, longitude: number, options: StaticMapOptions): string;
+    closeSession(session: AutocompleteSession): void;
+}
+
+// Failure categories surfaced to the user; raw provider errors are classified in Queries
+export type PlacesErrorCode =
+    | 'ZERO_RESULTS'
+    | 'NOT_FOUND'
+    | 'INVALID_KEY'
+    | 'QUOTA_EXCEEDED'
+    | 'OFFLINE'
+    | 'SCRIPT_LOAD_FAILED'
+    // Too many recent failures - lookups are paused and the control falls back to manual entry
+    | 'SERVICE_UNAVAILABLE'
+    // A required setting such as the provider endpoint is missing
+    | 'NOT_CONFIGURED'
+    | 'UNKNOWN';
+
+export class PlacesError extends Error {
+    public readonly code: PlacesErrorCode;
+    // Raw status reported by the provider (e.g. OVER_QUERY_LIMIT, HTTP 403), kept for diagnostics
+    public readonly status: string;
+
+    constructor(code: PlacesErrorCode, status: string, message: string) {
+        super(message);
+        this.name = 'PlacesError';
+        this.code = code;
+        this.status = status;
+        // Keep instanceof working when compiled to ES5
+        Object.setPrototypeOf(this, PlacesError.prototype);
+    }
+}
+
+// Bound address fields that can be filled from configurable address component rules
+export type MappedAddressField = 'street' | 'suburb' | 'city' | 'state' | 'country' | 'building' | 'postcode' | 'unit' | 'streetNumber' | 'streetName' | 'county';
+
+// Fill a field from the first matching component type, or from every matching type joined with spaces when combine is set
+export interface ComponentRule {
+    types: string[];
+    // Defaults to long, except state and country which follow the short name settings
+    name?: 'long' | 'short';
+    combine?: boolean;
+}
+
+// Rules for a field are tried in order until one produces a value; fields without rules use the built-in mapping
+export type AddressComponentMapping = { [field in MappedAddressField]?: ComponentRule[] };
+
+// Street line template per ISO country code, '*' for every other country
+// {unit}, {number} and {street} are replaced; a [bracketed] part is dropped when any placeholder in it is empty
+export type StreetTemplates = { [countryCode: string]: string };
+
+export interface AddressParseOptions {
+    componentMapping?: AddressComponentMapping;
+    // Checked before the built-in country templates
+    streetTemplates?: StreetTemplates;
+}
+
+// Local postal conventions: most of continental Europe and Latin America put the number after the street,
+// AU/NZ write units as "2/15 Smith St"
+const NUMBER_AFTER_STREET = '{street} {number}';
+const NUMBER_AFTER_STREET_COMMA = '{street}, {number}';
+const UNIT_SLASH_NUMBER = '[{unit}/]{number} {street}';
+
+export const DEFAULT_STREET_TEMPLATES: StreetTemplates = {
+    '*': '{number} {street}',
+    AU: UNIT_SLASH_NUMBER,
+    NZ: UNIT_SLASH_NUMBER,
+    AR: NUMBER_AFTER_STREET,
+    AT: NUMBER_AFTER_STREET,
+    BA: NUMBER_AFTER_STREET,
+    BE: NUMBER_AFTER_STREET,
+    BG: NUMBER_AFTER_STREET,
+    BR: NUMBER_AFTER_STREET_COMMA,
+    CH: NUMBER_AFTER_STREET,
+    CL: NUMBER_AFTER_STREET,
+    CZ: NUMBER_AFTER_STREET,
+    DE: NUMBER_AFTER_STREET,
+    DK: NUMBER_AFTER_STREET,
+    EE: NUMBER_AFTER_STREET,
+    ES: NUMBER_AFTER_STREET_COMMA,
+    FI: NUMBER_AFTER_STREET,
+    GR: NUMBER_AFTER_STREET,
+    HR: NUMBER_AFTER_STREET,
+    HU: NUMBER_AFTER_STREET,
+    IS: NUMBER_AFTER_STREET,
+    IT: NUMBER_AFTER_STREET_COMMA,
+    LT: NUMBER_AFTER_STREET,
+    LV: NUMBER_AFTER_STREET,
+    MX: NUMBER_AFTER_STREET,
+    NL: NUMBER_AFTER_STREET,
+    NO: NUMBER_AFTER_STREET,
+    PL: NUMBER_AFTER_STREET,
+    PT: NUMBER_AFTER_STREET_COMMA,
+    RO: NUMBER_AFTER_STREET,
+    RS: NUMBER_AFTER_STREET,
+    RU: NUMBER_AFTER_STREET_COMMA,
+    SE: NUMBER_AFTER_STREET,
+    SI: NUMBER_AFTER_STREET,
+    SK: NUMBER_AFTER_STREET,
+    TR: NUMBER_AFTER_STREET,
+    UA: NUMBER_AFTER_STREET_COMMA
+};
+
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+export interface StreetLineParts {
+    unit: string;
+    number: string;
+    street: string;
+}
+
 // Utility class for working with Google Places data
 export class GooglePlacesUtils {
     static getFormattedAddress(place: PlaceResult): string {
@@ -196,33 +459,122 @@ export class GooglePlacesUtils {
             this.getAddressComponent(place, 'subpremise');
     }
 
+    static getSubpremise(place: PlaceResult): string {
+        return this.getAddressComponent(place, 'subpremise');
+    }
+
+    static getCounty(place: PlaceResult): string {
+        return this.getAddressComponent(place, 'administrative_area_level_2');
+    }
+
+    static getPlusCode(place: PlaceResult): string {
+        return place.plusCode?.globalCode || place.plusCode?.compoundCode || '';
+    }
+
     static getSublocality(place: PlaceResult): string {
         return this.getAddressComponent(place, 'sublocality') ||
             this.getAddressComponent(place, 'sublocality_level_1') ||
             this.getAddressComponent(place, 'neighborhood');
     }
 
-    static parseAddressComponents(place: PlaceResult, stateReturnShortName: boolean = false, countryReturnShortName: boolean = false): ParsedAddress {
-        const streetNumber = this.getStreetNumber(place);
-        const streetName = this.getStreetName(place);
-        const street = streetNumber && streetName ? `${streetNumber} ${streetName}` : (streetName || streetNumber);
+    static applyComponentRules(place: PlaceResult, rules: ComponentRule[], defaultName: 'long' | 'short' = 'long'): string {
+        for (const rule of rules) {
+            const useShortName = (rule.name || defaultName) === 'short';
+            const values = rule.types
+                .map(type => useShortName ? this.getAddressComponentShort(place, type) : this.getAddressComponent(place, type))
+                .filter(value => value !== '');
+            const value = rule.combine ? values.join(' ') : (values[0] || '');
+
+            if (value) {
+                return value;
+            }
+        }
+
+        return '';
+    }
+
+    static renderStreetTemplate(template: string, parts: StreetLineParts): string {
+        return this.renderTemplate(template, { ...parts });
+    }
+
+    // Drop each [bracketed] part with an empty or unknown placeholder and unwrap the rest
+    private static keepFilledParts(template: string, values: { [placeholder: string]: string }): string {
+        const isFilled = (text: string) => (text.match(TEMPLATE_PLACEHOLDER_PATTERN) || [])
+            .every(token => Boolean(values[token.slice(1, -1)]));
+
+        return template.replace(/\[([^\]]*)\]/g, (match, optional: string) => isFilled(optional) ? optional : '');
+    }
+
+    // Replace {placeholders}, dropping a [bracketed] part when any placeholder in it is empty or unknown
+    static renderTemplate(template: string, values: { [placeholder: string]: string }): string {
+        return this.keepFilledParts(template, values)
+            .replace(TEMPLATE_PLACEHOLDER_PATTERN, (match, key: string) => values[key] || '')
+            // Tidy separators left behind by empty parts
+            .replace(/\s+,/g, ',')
+            .replace(/\s{2,}/g, ' ')
+            .replace(/^[\s,]+|[\s,]+$/g, '');
+    }
+
+    // Whether rendering the template outputs the placeholder's value
+    static rendersPlaceholder(template: string, placeholder: string, values: { [placeholder: string]: string }): boolean {
+        return Boolean(values[placeholder]) && this.keepFilledParts(template, values).indexOf(`{${placeholder}}`) !== -1;
+    }
+
+    // Street template in the local postal convention of the place's country
+    static getStreetTemplate(place: PlaceResult, overrides?: StreetTemplates): string {
+        const country = this.getCountryShort(place).toUpperCase();
+        return (overrides && (overrides[country] || overrides['*'])) ||
+            DEFAULT_STREET_TEMPLATES[country] ||
+            DEFAULT_STREET_TEMPLATES['*'];
+    }
+
+    static parseAddressComponents(place: PlaceResult, stateReturnShortName: boolean = false, countryReturnShortName: boolean = false, options: AddressParseOptions = {}): ParsedAddress {
+        const mapping = options.componentMapping;
+        // Configured rules replace the built-in mapping for that field only
+        const mapField = (field: MappedAddressField, getDefault: () => string, defaultName: 'long' | 'short' = 'long'): string => {
+            const rules = mapping ? mapping[field] : undefined;
+            return (rules ? this.applyComponentRules(place, rules, defaultName) : getDefault()) || '';
+        };
+
+        const unit = mapField('unit', () => this.getSubpremise(place));
+        const streetNumber = mapField('streetNumber', () => this.getStreetNumber(place));
+        const streetName = mapField('streetName', () => this.getStreetName(place));
+        const streetParts: StreetLineParts = { unit, number: streetNumber, street: streetName };
+        const streetTemplate = this.getStreetTemplate(place, options.streetTemplates);
+        const street = mapField('street', () => this.renderStreetTemplate(streetTemplate, streetParts));
+        const building = mapField('building', () => this.getPremise(place));
 
         return {
             fullAddress: this.getFormattedAddress(place),
-            street: street || '',
-            suburb: this.getSublocality(place) || '',
-            city: this.getCity(place) || '',
-            state: this.getStateFormatted(place, stateReturnShortName) || '',
-            country: this.getCountryFormatted(place, countryReturnShortName) || '',
+            street,
+            suburb: mapField('suburb', () => this.getSublocality(place)),
+            city: mapField('city', () => this.getCity(place)),
+            state: mapField('state', () => this.getStateFormatted(place, stateReturnShortName), stateReturnShortName ? 'short' : 'long'),
+            country: mapField('country', () => this.getCountryFormatted(place, countryReturnShortName), countryReturnShortName ? 'short' : 'long'),
+            countryCode: this.getCountryShort(place).toUpperCase(),
             latitude: this.getLatitude(place),
             longitude: this.getLongitude(place),
-            building: this.getPremise(place) || '',
-            postcode: this.getPostalCode(place) || '',
-            googlePlaceId: place.placeId || ''
+            building,
+            postcode: mapField('postcode', () => this.getPostalCode(place)),
+            googlePlaceId: place.placeId || '',
+            unit,
+            streetNumber,
+            streetName,
+            county: mapField('county', () => this.getCounty(place)),
+            plusCode: this.getPlusCode(place),
+            placeTypes: (place.types || []).join(','),
+            utcOffset: place.utcOffset,
+            // A mapped street line is taken as it is, so any unit is still shown separately
+            streetIncludesUnit: !(mapping && mapping.street) && this.rendersPlaceholder(streetTemplate, 'unit', { ...streetParts }),
+            premise: mapping && mapping.building ? building : this.getAddressComponent(place, 'premise'),
+            postTown: this.getAddressComponent(place, 'postal_town')
         };
     }
 }
 
+// Place ID and coordinates written on their own (backfill, adjusted pin), leaving the address outputs as they are
+export type AddressLocation = Pick<ParsedAddress, 'googlePlaceId' | 'latitude' | 'longitude'>;
+
 // Interface for the autocomplete component props
 export interface AutoCompleteProps {
     value: string;
@@ -0,0 +1,73 @@
+/* eslint-env node */
+// Local stand-in for the Azure Maps Search and Render APIs, serving the sample responses in ./responses
+// Start it with `node stand-ins/azure-maps/server.js [port]` and set providerEndpoint to http://localhost:<port>
+
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const PORT = Number(process.argv[2] || process.env.PORT || 4380);
+
+// Request path to the sample response it is answered with
+const RESPONSES = {
+    '/search/fuzzy/json': 'search-fuzzy.json',
+    '/search/address/json': 'search-address.json',
+    '/search/address/reverse/json': 'search-address-reverse.json'
+};
+
+// 1x1 grey PNG returned for static map requests
+const STATIC_MAP_PNG = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mO8e/fufwAIagN/2Wq8qQAAAABJRU5ErkJggg==',
+    'base64'
+);
+
+function readResponse(fileName) {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, 'responses', fileName), 'utf8'));
+}
+
+// Suggestions only match when every word of the query appears in the result, like typeahead search
+function matchesQuery(result, query) {
+    const text = [result.address.freeformAddress, result.poi && result.poi.name].join(' ').toLowerCase();
+    return query.toLowerCase().split(/[\s,]+/).filter(Boolean).every(word => text.indexOf(word) !== -1);
+}
+
+function send(response, status, contentType, body) {
+    response.writeHead(status, {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': contentType
+    });
+    response.end(body);
+}
+
+const server = http.createServer((request, response) => {
+    const url = new URL(request.url, `http://localhost:${PORT}`);
+
+    if (!url.searchParams.get('subscription-key')) {
+        send(response, 401, 'application/json', JSON.stringify({ error: { code: '401 Unauthorized', message: 'Missing subscription key' } }));
+        return;
+    }
+
+    if (url.pathname === '/map/static/png') {
+        send(response, 200, 'image/png', STATIC_MAP_PNG);
+        return;
+    }
+
+    const fileName = RESPONSES[url.pathname];
+    if (!fileName) {
+        send(response, 404, 'application/json', JSON.stringify({ error: { code: '404 NotFound', message: `No sample response for ${url.pathname}` } }));
+        return;
+    }
+
+    const body = readResponse(fileName);
+    const query = url.searchParams.get('query') || '';
+    if (url.pathname === '/search/fuzzy/json') {
+        body.results = body.results.filter(result => matchesQuery(result, query));
+        body.summary = { ...body.summary, query, numResults: body.results.length, totalResults: body.results.length };
+    }
+
+    send(response, 200, 'application/json', JSON.stringify(body));
+});
+
+server.listen(PORT, () => {
+    console.log(`Azure Maps stand-in listening on http://localhost:${PORT}`);
+});